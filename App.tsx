@@ -3,13 +3,31 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import GeminiSlingshot from './components/GeminiSlingshot';
+import Dashboard from './components/Dashboard';
+
+type View = 'game' | 'dashboard';
+
+// The dashboard lives at #dashboard so parents can bookmark it
+const getViewFromHash = (): View => window.location.hash === '#dashboard' ? 'dashboard' : 'game';
 
 const App: React.FC = () => {
+  const [view, setView] = useState<View>(getViewFromHash);
+
+  useEffect(() => {
+    const onHashChange = () => setView(getViewFromHash());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
   return (
     <div className="w-full h-full">
-      <GeminiSlingshot />
+      {view === 'dashboard' ? (
+        <Dashboard onClose={() => { window.location.hash = ''; }} />
+      ) : (
+        <GeminiSlingshot onOpenDashboard={() => { window.location.hash = 'dashboard'; }} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { loadProfiles, addProfile, setActiveProfile, ProfileData } from '../services/profileService';
+import {
+  loadSessionRecords, sessionsToCsv, tallyWords, getAccuracy, getSessionDurationMs, SessionRecord, WordTally, PointTotals
+} from '../services/progressService';
+import { downloadJson, downloadText, fileTimestamp } from '../services/fileService';
+import { ArrowLeft, BarChart3, Download, UserPlus, Check, Clock, Target, Lightbulb, Users } from 'lucide-react';
+
+interface DashboardProps {
+  onClose: () => void;
+}
+
+const TREND_SESSIONS = 30; // Bars in the accuracy chart
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 60 ? `${minutes}분` : `${Math.floor(minutes / 60)}시간 ${minutes % 60}분`;
+};
+
+// Hover text for a session's score
+const describePoints = (p: PointTotals) =>
+  `터뜨리기 ${p.match.toLocaleString()} · 떨어뜨리기 ${p.drop.toLocaleString()} · 연속 ${p.combo.toLocaleString()} · 모두 없애기 ${p.clear.toLocaleString()}`;
+
+const StatCard: React.FC<{ icon: React.ReactNode, label: string, value: string }> = ({ icon, label, value }) => (
+  <div className="bg-[#1e1e1e] p-5 rounded-[24px] border-2 border-[#444746] flex items-center gap-4">
+    <div className="bg-[#42a5f5]/20 p-3 rounded-full text-[#42a5f5]">{icon}</div>
+    <div>
+      <p className="text-xs text-[#c4c7c5] uppercase tracking-wider font-bold">{label}</p>
+      <p className="text-2xl font-black text-white">{value}</p>
+    </div>
+  </div>
+);
+
+// Accuracy per session, oldest on the left; bar height = pops / shots
+const AccuracyTrend: React.FC<{ sessions: SessionRecord[] }> = ({ sessions }) => {
+  const recent = sessions.slice(-TREND_SESSIONS);
+  if (recent.length === 0) return <p className="text-sm text-[#757575]">아직 기록이 없어요.</p>;
+  const barWidth = 100 / TREND_SESSIONS;
+
+  return (
+    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-40 bg-[#252525] rounded-2xl">
+      {[0.25, 0.5, 0.75].map(y => (
+        <line key={y} x1={0} x2={100} y1={40 - y * 40} y2={40 - y * 40} stroke="rgba(255,255,255,0.08)" strokeWidth={0.2} />
+      ))}
+      {recent.map((s, i) => {
+        const accuracy = getAccuracy(s.shots, s.pops);
+        const height = Math.max(0.5, accuracy * 38);
+        return (
+          <rect
+            key={s.id}
+            x={i * barWidth + barWidth * 0.15}
+            y={40 - height}
+            width={barWidth * 0.7}
+            height={height}
+            rx={0.5}
+            fill={accuracy >= 0.5 ? '#66bb6a' : '#ffa726'}
+          >
+            <title>{`${new Date(s.startedAt).toLocaleDateString('ko-KR')} · ${percent(accuracy)}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ onClose }) => {
+  const [profileData, setProfileData] = useState<ProfileData>(loadProfiles);
+  const [sessions] = useState<SessionRecord[]>(loadSessionRecords);
+  const [filter, setFilter] = useState<string>('all');
+  const [newName, setNewName] = useState('');
+
+  const learnerNames = useMemo(
+    () => Object.fromEntries(profileData.profiles.map(p => [p.id, p.name])),
+    [profileData]
+  );
+  const filtered = useMemo(
+    () => sessions.filter(s => filter === 'all' || s.learnerId === filter),
+    [sessions, filter]
+  );
+  const words = useMemo(() => tallyWords(filtered), [filtered]);
+
+  const totalShots = filtered.reduce((sum, s) => sum + s.shots, 0);
+  const totalPops = filtered.reduce((sum, s) => sum + s.pops, 0);
+  const totalHints = filtered.reduce((sum, s) => sum + s.hintsReceived, 0);
+  const totalFollowed = filtered.reduce((sum, s) => sum + s.hintsFollowed, 0);
+  const totalTime = filtered.reduce((sum, s) => sum + getSessionDurationMs(s), 0);
+
+  const createProfile = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setProfileData(addProfile(newName));
+    setNewName('');
+  };
+
+  const exportName = filter === 'all' ? 'all' : (learnerNames[filter] ?? filter);
+
+  return (
+    <div className="w-full h-screen overflow-y-auto bg-[#121212] font-roboto text-[#e3e3e3]">
+      <div className="max-w-5xl mx-auto p-8 flex flex-col gap-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <button onClick={onClose} className="p-3 rounded-full bg-[#1e1e1e] border-2 border-[#444746] hover:bg-[#252525]" title="게임으로 돌아가기">
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <BarChart3 className="w-7 h-7 text-[#42a5f5]" />
+            <h1 className="text-3xl font-black text-white">학습 기록</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadText(`progress_${exportName}_${fileTimestamp()}.csv`, sessionsToCsv(filtered, learnerNames), "text/csv")}
+              className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 hover:bg-white/10 font-bold text-sm"
+            >
+              <Download className="w-4 h-4" /> CSV
+            </button>
+            <button
+              onClick={() => downloadJson(`progress_${exportName}_${fileTimestamp()}.json`, { exportedAt: new Date().toISOString(), profiles: profileData.profiles, sessions: filtered })}
+              className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 hover:bg-white/10 font-bold text-sm"
+            >
+              <Download className="w-4 h-4" /> JSON
+            </button>
+          </div>
+        </div>
+
+        {/* Profiles: filter the view, and pick who is playing next */}
+        <div className="bg-[#1e1e1e] p-5 rounded-[24px] border-2 border-[#444746] flex flex-col gap-3">
+          <p className="flex items-center gap-2 text-sm text-[#c4c7c5] uppercase tracking-wider font-bold">
+            <Users className="w-4 h-4" /> 아이
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setFilter('all')}
+              className={`px-4 py-2 rounded-full border-2 text-sm font-bold ${filter === 'all' ? 'border-[#42a5f5] bg-[#42a5f5]/10 text-white' : 'border-white/10 text-[#c4c7c5]'}`}
+            >
+              모두
+            </button>
+            {profileData.profiles.map(p => (
+              <div key={p.id} className={`flex items-center rounded-full border-2 ${filter === p.id ? 'border-[#42a5f5] bg-[#42a5f5]/10' : 'border-white/10'}`}>
+                <button onClick={() => setFilter(p.id)} className="pl-4 pr-2 py-2 text-sm font-bold text-white">{p.name}</button>
+                <button
+                  onClick={() => setProfileData(setActiveProfile(p.id))}
+                  className={`mr-1 p-1.5 rounded-full ${profileData.activeId === p.id ? 'bg-[#66bb6a] text-black' : 'bg-white/5 text-[#757575] hover:text-white'}`}
+                  title={profileData.activeId === p.id ? "지금 하는 아이" : "이 아이로 하기"}
+                >
+                  <Check className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+            <form onSubmit={createProfile} className="flex items-center gap-2">
+              <input
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+                maxLength={12}
+                placeholder="새 아이 이름"
+                className="bg-[#252525] border-2 border-[#444746] rounded-full px-4 py-2 text-sm text-white w-36 outline-none focus:border-[#42a5f5]"
+              />
+              <button type="submit" className="p-2 rounded-full bg-white/5 hover:bg-white/10" title="아이 추가">
+                <UserPlus className="w-4 h-4" />
+              </button>
+            </form>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <StatCard icon={<BarChart3 className="w-5 h-5" />} label="게임 수" value={`${filtered.length}`} />
+          <StatCard icon={<Clock className="w-5 h-5" />} label="플레이 시간" value={formatDuration(totalTime)} />
+          <StatCard icon={<Target className="w-5 h-5" />} label="정확도" value={percent(getAccuracy(totalShots, totalPops))} />
+          <StatCard icon={<Lightbulb className="w-5 h-5" />} label="힌트 따름" value={`${totalFollowed}/${totalHints}`} />
+        </div>
+
+        <div className="bg-[#1e1e1e] p-5 rounded-[24px] border-2 border-[#444746] flex flex-col gap-3">
+          <p className="text-sm text-[#c4c7c5] uppercase tracking-wider font-bold">정확도 변화 (최근 {TREND_SESSIONS}게임)</p>
+          <AccuracyTrend sessions={filtered} />
+        </div>
+
+        <div className="bg-[#1e1e1e] p-5 rounded-[24px] border-2 border-[#444746] flex flex-col gap-3">
+          <p className="text-sm text-[#c4c7c5] uppercase tracking-wider font-bold">단어별 (어려운 단어부터)</p>
+          {words.length === 0 ? (
+            <p className="text-sm text-[#757575]">아직 기록이 없어요.</p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="text-[#757575]">
+                <tr><th className="py-1">단어</th><th>뜻</th><th className="text-right">쏜 횟수</th><th className="text-right">터뜨림</th><th className="text-right">정확도</th></tr>
+              </thead>
+              <tbody>
+                {words.map(w => (
+                  <tr key={w.word} className="border-t border-white/5">
+                    <td className="py-1 font-bold text-white">{w.word}</td>
+                    <td className="text-[#c4c7c5]">{w.translation}</td>
+                    <td className="text-right">{w.shots}</td>
+                    <td className="text-right">{w.pops}</td>
+                    <td className={`text-right font-bold ${getAccuracy(w.shots, w.pops) >= 0.5 ? 'text-[#66bb6a]' : 'text-[#ffa726]'}`}>{percent(getAccuracy(w.shots, w.pops))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-[#1e1e1e] p-5 rounded-[24px] border-2 border-[#444746] flex flex-col gap-3">
+          <p className="text-sm text-[#c4c7c5] uppercase tracking-wider font-bold">게임 기록</p>
+          {filtered.length === 0 ? (
+            <p className="text-sm text-[#757575]">아직 기록이 없어요.</p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="text-[#757575]">
+                <tr><th className="py-1">날짜</th><th>아이</th><th>시간</th><th className="text-right">점수</th><th className="text-right">최고 연속</th><th>단어 꾸러미</th><th className="text-right">정확도</th><th className="text-right">힌트</th><th>터뜨린 단어</th></tr>
+              </thead>
+              <tbody>
+                {[...filtered].reverse().map(s => (
+                  <tr key={s.id} className="border-t border-white/5 align-top">
+                    <td className="py-1 whitespace-nowrap">{new Date(s.startedAt).toLocaleString('ko-KR', { dateStyle: 'short', timeStyle: 'short' })}</td>
+                    <td>{learnerNames[s.learnerId] ?? s.learnerId}</td>
+                    <td className="whitespace-nowrap">{formatDuration(getSessionDurationMs(s))}</td>
+                    <td className="text-right font-bold" title={s.points ? describePoints(s.points) : undefined}>{s.score.toLocaleString()}</td>
+                    <td className="text-right">{s.bestCombo ? `${s.bestCombo}연속` : '-'}</td>
+                    <td className="text-[#c4c7c5]">{s.vocabPackName}</td>
+                    <td className="text-right">{percent(getAccuracy(s.shots, s.pops))}</td>
+                    <td className="text-right whitespace-nowrap">{s.hintsFollowed}/{s.hintsReceived}</td>
+                    <td className="text-xs text-[#c4c7c5]">
+                      {Object.values<WordTally>(s.words).filter(w => w.pops > 0).map(w => `${w.word} ${w.pops}`).join(', ') || '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { DebugInfo } from '../types';
+import { Terminal, Eye, X, Download, AlertTriangle, Clock } from 'lucide-react';
+
+interface DebugPanelProps {
+  history: DebugInfo[]; // Oldest first
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const Section: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
+  <div className="flex flex-col gap-1">
+    <p className="text-[10px] text-[#757575] uppercase tracking-widest font-bold">{title}</p>
+    {children}
+  </div>
+);
+
+const DebugPanel: React.FC<DebugPanelProps> = ({ history, onExport, onClose }) => {
+  // Follow the newest call unless the user picked an older one
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [showScreenshot, setShowScreenshot] = useState(true);
+
+  useEffect(() => {
+    if (selectedIndex !== null && selectedIndex >= history.length) setSelectedIndex(null);
+  }, [history.length, selectedIndex]);
+
+  const index = selectedIndex ?? history.length - 1;
+  const entry = history[index];
+
+  return (
+    <div className="absolute top-0 left-0 bottom-0 z-[75] w-[440px] max-w-full bg-[#151515]/95 backdrop-blur-md border-r-2 border-[#444746] shadow-2xl flex flex-col text-xs font-mono">
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+        <div className="flex items-center gap-2 text-[#a8c7fa] font-bold">
+          <Terminal className="w-4 h-4" />
+          AI INSPECTOR
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onExport} className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 text-[#e3e3e3]" title="Export session as JSON">
+            <Download className="w-3.5 h-3.5" /> JSON
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-full bg-white/5 hover:bg-white/10 text-gray-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Rolling history, newest on the right */}
+      <div className="flex gap-1 p-3 overflow-x-auto border-b border-white/10">
+        {history.length === 0 && <p className="text-[#757575]">No AI calls yet.</p>}
+        {history.map((h, i) => (
+          <button
+            key={i}
+            onClick={() => setSelectedIndex(i === history.length - 1 ? null : i)}
+            className={`shrink-0 px-2 py-1 rounded-md border ${i === index ? 'border-[#a8c7fa] text-white' : 'border-white/10 text-[#c4c7c5]'} ${h.error ? 'bg-[#ef5350]/20' : 'bg-white/5'}`}
+            title={h.error || h.timestamp}
+          >
+            {h.timestamp} · {h.latency}ms{h.outcome && h.outcome !== 'ok' ? ` · ${h.outcome}` : ''}{h.cacheHit ? ' · cached' : ''}
+          </button>
+        ))}
+      </div>
+
+      {entry && (
+        <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-4 text-[#e3e3e3]">
+          <div className="flex items-center gap-3">
+            <span className="flex items-center gap-1 text-[#c4c7c5]"><Clock className="w-3.5 h-3.5" /> {entry.latency}ms</span>
+            {entry.provider && <span className="text-[#a8c7fa]">{entry.provider}</span>}
+            {entry.outcome && <span className={`px-1.5 rounded ${entry.outcome === 'ok' ? 'bg-[#66bb6a]/20 text-[#a5d6a7]' : 'bg-[#ffa726]/20 text-[#ffcc80]'}`}>{entry.outcome}</span>}
+            {entry.attempts !== undefined && entry.attempts > 1 && <span className="text-[#c4c7c5]">{entry.attempts} tries</span>}
+            {entry.cacheHit && <span className="px-1.5 rounded bg-[#a8c7fa]/20 text-[#a8c7fa]">cached</span>}
+            <span className="text-[#757575]">{entry.timestamp}</span>
+          </div>
+
+          {entry.error && (
+            <div className="flex gap-2 p-2 rounded-lg bg-[#ef5350]/15 border border-[#ef5350]/40 text-[#ef9a9a]">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              {entry.error}
+            </div>
+          )}
+
+          {entry.screenshotBase64 && (
+            <Section title="Screenshot Sent">
+              <button onClick={() => setShowScreenshot(!showScreenshot)} className="self-start flex items-center gap-1 text-[#a8c7fa]">
+                <Eye className="w-3.5 h-3.5" /> {showScreenshot ? 'hide' : 'show'}
+              </button>
+              {showScreenshot && <img src={entry.screenshotBase64} alt="AI input" className="w-full rounded-lg border border-white/10" />}
+            </Section>
+          )}
+
+          <Section title={`Candidates (${entry.candidates?.length ?? 0})`}>
+            {entry.candidates && entry.candidates.length > 0 ? (
+              <table className="w-full text-left">
+                <thead className="text-[#757575]">
+                  <tr><th>color</th><th>row,col</th><th>shot</th><th>size</th><th>drop</th><th>pts</th></tr>
+                </thead>
+                <tbody>
+                  {entry.candidates.map(c => (
+                    <tr key={c.id + c.color} className="border-t border-white/5">
+                      <td>{c.color}</td>
+                      <td>{c.row},{c.col}</td>
+                      <td>{c.shot}{c.bounces > 1 ? ` x${c.bounces}` : ''}</td>
+                      <td>{c.size}</td>
+                      <td>{c.dropCount}</td>
+                      <td>{c.size * c.pointsPerBubble + c.dropPoints}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <pre className="whitespace-pre-wrap text-[#c4c7c5]">{entry.promptContext || '(none)'}</pre>
+            )}
+          </Section>
+
+          <Section title="Raw Response">
+            <pre className="whitespace-pre-wrap break-all bg-black/40 p-2 rounded-lg max-h-48 overflow-y-auto">{entry.rawResponse || '(empty)'}</pre>
+          </Section>
+
+          <Section title="Parsed Response">
+            <pre className="whitespace-pre-wrap break-all bg-black/40 p-2 rounded-lg">{entry.parsedResponse ? JSON.stringify(entry.parsedResponse, null, 2) : '(none)'}</pre>
+          </Section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DebugPanel;
@@ -4,119 +4,283 @@
 */
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { getStrategicHint, TargetCandidate } from '../services/geminiService';
-import { Point, Bubble, Particle, BubbleColor, DebugInfo } from '../types';
-import { Loader2, Trophy, BrainCircuit, Play, MousePointerClick, Eye, Terminal, AlertTriangle, Target, Lightbulb, Monitor, Sparkles, Volume2, VolumeX } from 'lucide-react';
+import { createHintProvider, loadHintConfig, HintConfig } from '../services/hintConfig';
+import { HintProvider } from '../services/hintProvider';
+import { requestHint } from '../services/hintRequest';
+import { solveStrategicHint } from '../services/localSolver';
+import { Point, Particle, ScorePopup, Bubble, BubbleColor, DebugInfo, StrategicHint, VocabPack, VocabWord, LevelDefinition, SpecialShotKind, SpecialShots } from '../types';
+import { createGameEngine, GameEngine, EngineEvent, CEILING_DROP_MISSES, TICK_MS, getCeilingRules } from '../engine/gameEngine';
+import { BUBBLE_RADIUS, ROW_HEIGHT, GRID_COLS, COLOR_KEYS, getBubblePos, getCeilingY, getMatchableColors, hasWord } from '../engine/grid';
+import { createRng, Rng } from '../engine/rng';
+import { createQuiz, answerQuiz, endQuiz, isQuizFinished, QuizState, QuizAnswer } from '../engine/quiz';
+import { ShotScore } from '../engine/scoring';
+import { GameRecording, startRecording, addRecordedShot, addRecordedTimerDrop } from '../engine/recording';
+import { ShotMode, ShotQueue, createShotQueue, advanceShotQueue, refreshShotQueue, swapShotQueue } from '../engine/shotQueue';
+import { getGoalProgress, getStarCount, GoalProgress } from '../engine/level';
+import {
+  VersusMode, VersusState, VERSUS_SHOTS_PER_PLAYER, createVersus, canVersusShoot, setVersusColor, refreshVersusColors,
+  spendVersusShot, scoreVersusShot, isVersusOutOfShots, finishVersus
+} from '../engine/versus';
+import { BUILT_IN_PACKS, DEFAULT_VOCAB_PACK } from '../services/vocabService';
+import { downloadJson, fileTimestamp } from '../services/fileService';
+import {
+  loadSaveData, saveSettings, saveSession, clearSession, SavedSession,
+  loadHighScores, addHighScore, qualifiesForHighScore, getLastPlayerName, HighScoreEntry
+} from '../services/saveService';
+import {
+  loadLearnerHistory, saveLearnerHistory, recordShot, recordIgnoredHint, getColorWeights, getPracticeWords, LearnerHistory
+} from '../services/learningService';
+import { getActiveProfile } from '../services/profileService';
+import { BUILT_IN_LEVELS, loadLevelProgress, recordLevelResult, loadCustomLevels, saveCustomLevel, deleteCustomLevel } from '../services/levelService';
+import { startSessionRecord, recordSessionShot, recordSessionScore, recordSessionHint, saveSessionRecord, SessionRecord } from '../services/progressService';
+import VocabPackPicker from './VocabPackPicker';
+import HighScoreTable from './HighScoreTable';
+import QuizPanel from './QuizPanel';
+import QuizResults from './QuizResults';
+import LevelSelect, { StarRow } from './LevelSelect';
+import LevelHud from './LevelHud';
+import ShotScoreHud from './ShotScoreHud';
+import ReplayViewer from './ReplayViewer';
+import LevelEditor from './LevelEditor';
+import DebugPanel from './DebugPanel';
+import ShotQueueBar from './ShotQueueBar';
+import VersusHud, { VersusColorBar } from './VersusHud';
+import VersusResults from './VersusResults';
+import { COLOR_CONFIG, MYSTERY_BALL_CONFIG, PLAYER_HEX, adjustColor, drawBubble, getBubbleHex } from './bubbleRenderer';
+import { Loader2, Trophy, BrainCircuit, Play, MousePointerClick, Eye, Terminal, AlertTriangle, Target, Lightbulb, Camera, Sparkles, Volume2, VolumeX, RotateCcw, BookOpen, Zap, Hourglass, BarChart3, Headphones, Palette, Map as MapIcon, ChevronRight, Pencil, Bomb, Rainbow, Grid2x2, ListOrdered, Film, Users, User, ArrowLeftRight } from 'lucide-react';
 
 const PINCH_THRESHOLD = 0.05;
-const GRAVITY = 0.0; 
-const FRICTION = 0.998; 
-
-// Increased Bubble Size for better visibility
-const BUBBLE_RADIUS = 36;
-const ROW_HEIGHT = BUBBLE_RADIUS * Math.sqrt(3);
-// Layout Config: Balanced spread (14 cols) and concentrated at top (4 rows)
-const GRID_COLS = 14; 
-const GRID_ROWS = 4;
-const SLINGSHOT_BOTTOM_OFFSET = 240;
-const GRID_TOP_OFFSET = 60; // Add padding from top
-
-const MAX_DRAG_DIST = 200;
-const MIN_FORCE_MULT = 0.15;
-const MAX_FORCE_MULT = 0.45;
-
-// Material Design Colors & Scoring Strategy & Hangul Words
-const COLOR_CONFIG: Record<BubbleColor, { hex: string, points: number, label: string, textColor: string }> = {
-  red:    { hex: '#ef5350', points: 100, label: '사과', textColor: '#ffffff' },     // Apple
-  blue:   { hex: '#42a5f5', points: 150, label: '버스', textColor: '#ffffff' },     // Bus
-  green:  { hex: '#66bb6a', points: 200, label: '기차', textColor: '#ffffff' },     // Train
-  yellow: { hex: '#ffee58', points: 250, label: '사자', textColor: '#000000' },     // Lion (Yellow/Gold)
-  purple: { hex: '#ab47bc', points: 300, label: '포도', textColor: '#ffffff' },     // Grape
-  orange: { hex: '#ffa726', points: 500, label: '오렌지', textColor: '#ffffff' }    // Orange (Filler)
-};
-
-const COLOR_KEYS: BubbleColor[] = ['red', 'blue', 'green', 'yellow', 'purple', 'orange'];
-
-// Color Helper for Gradients
-const adjustColor = (color: string, amount: number) => {
-    const hex = color.replace('#', '');
-    const r = Math.max(0, Math.min(255, parseInt(hex.substring(0, 2), 16) + amount));
-    const g = Math.max(0, Math.min(255, parseInt(hex.substring(2, 4), 16) + amount));
-    const b = Math.max(0, Math.min(255, parseInt(hex.substring(4, 6), 16) + amount));
-    
-    const componentToHex = (c: number) => {
-        const hex = c.toString(16);
-        return hex.length === 1 ? "0" + hex : hex;
-    };
-    
-    return "#" + componentToHex(r) + componentToHex(g) + componentToHex(b);
-};
-
-const GeminiSlingshot: React.FC = () => {
+const GRAB_RADIUS = 100; // How close the pinch (or pointer) must be to the ball to pick it up
+const DEBUG_HISTORY_SIZE = 20; // AI calls kept for the inspector
+const CAMERA_TIMEOUT_MS = 10000; // Fall back to pointer controls if no camera frame arrives in time
+const PREVIEW_DOT_SPACING = 3; // Simulation frames between trajectory preview dots
+
+// Narrow screens render the board at this logical width and scale the canvas down to fit
+const MIN_LOGICAL_WIDTH = (GRID_COLS + 1) * BUBBLE_RADIUS * 2;
+
+type InputMode = 'camera' | 'pointer';
+type CameraStatus = 'pending' | 'ready' | 'failed';
+// 'background': keep shooting while the teacher thinks; 'blocking': the slingshot waits for each hint
+type HintMode = 'background' | 'blocking';
+const CRITICAL_ROW_MARGIN = 2; // Rows above the danger line that count as critical for the AI
+
+const QUIZ_FEEDBACK_MS = 1800;
+
+// The parts of MediaPipe Hands used here; the library comes from a script tag and has no types
+interface MediaPipeHands {
+  setOptions: (options: Record<string, unknown>) => void;
+  send: (input: { image: HTMLVideoElement }) => Promise<void>;
+  onResults: (callback: (results: any) => void) => void;
+  close: () => void;
+}
+
+// One tracked hand (or the pointer), in canvas coordinates
+interface HandInput {
+  pos: Point;
+  grabbing: boolean;
+}
+
+interface GeminiSlingshotProps {
+  onOpenDashboard?: () => void;
+}
+
+const GeminiSlingshot: React.FC<GeminiSlingshotProps> = ({ onOpenDashboard }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameContainerRef = useRef<HTMLDivElement>(null);
   
-  // Game State Refs
-  const ballPos = useRef<Point>({ x: 0, y: 0 });
-  const ballVel = useRef<Point>({ x: 0, y: 0 });
-  const anchorPos = useRef<Point>({ x: 0, y: 0 });
+  // Game State Refs (rules and physics live in the engine)
+  const engineRef = useRef<GameEngine | null>(null);
   const isPinching = useRef<boolean>(false);
-  const isFlying = useRef<boolean>(false);
-  const flightStartTime = useRef<number>(0);
-  const bubbles = useRef<Bubble[]>([]);
   const particles = useRef<Particle[]>([]);
-  const scoreRef = useRef<number>(0);
+  const popups = useRef<ScorePopup[]>([]);
+  const lastFrameTimeRef = useRef<number>(0);
+
+  // Input: MediaPipe pinch or pointer drag, both feed the same slingshot logic
+  const inputModeRef = useRef<InputMode>('camera');
+  const pointerRef = useRef<{ pos: Point | null, down: boolean }>({ pos: null, down: false });
   
-  const aimTargetRef = useRef<Point | null>(null);
+  const aimPathRef = useRef<Point[] | null>(null);
   const isAiThinkingRef = useRef<boolean>(false);
+  const hintModeRef = useRef<HintMode>('background');
   
   // AI Request Trigger
   const captureRequestRef = useRef<boolean>(false);
+  const hintConfigRef = useRef<HintConfig | null>(null);
+  const hintProviderRef = useRef<HintProvider | null>(null);
+  const hintAbortRef = useRef<AbortController | null>(null); // In-flight hint request, if any
 
   // Current active color (Ref for loop, State for UI)
   const selectedColorRef = useRef<BubbleColor>('red');
+  const selectedKindRef = useRef<SpecialShotKind | null>(null); // Special ball loaded from the pocket, null = normal
+  const vocabRef = useRef<VocabPack>(DEFAULT_VOCAB_PACK);
+  const aiRecommendedColorRef = useRef<BubbleColor | null>(null);
+
+  // Per-learner word history: biases new grids and the teacher's advice toward weak words
+  const [profile] = useState(getActiveProfile);
+  const learnerRef = useRef<LearnerHistory>(loadLearnerHistory(profile.id));
+  // This sitting's record for the parent/teacher dashboard, started with every new or resumed game
+  const progressRef = useRef<SessionRecord | null>(null);
+  // Seed, first board and every shot of the current game, for the replay viewer and bug reports
+  const recordingRef = useRef<GameRecording | null>(null);
+  const shownHintRef = useRef<StrategicHint | null>(null); // Hint on screen, stored with the next shot
+  const replayOpenRef = useRef(false); // Holds the game while a replay is watched
+
+  // Listening quiz ("듣고 맞추기"); null while playing the normal colour-matching game
+  const quizRef = useRef<QuizState | null>(null);
+  const quizRngRef = useRef<Rng>(createRng());
+
+  // Authored level being played; null = endless free play on a random board
+  const levelRef = useRef<LevelDefinition | null>(null);
+  // Level opened from the editor's "play-test": not autosaved and its wins don't count as the child's progress
+  const playTestRef = useRef<LevelDefinition | null>(null);
+
+  // Saved game waiting for a resume/new-game answer; the slingshot and autosave wait too
+  const [savedData] = useState(loadSaveData);
+  const [resumeOffer, setResumeOffer] = useState<SavedSession | null>(savedData.session ?? null);
+  const resumeOfferRef = useRef<SavedSession | null>(resumeOffer);
+
+  // Queue mode ("순서대로"): the ball to fire is dealt from the board's words instead of picked
+  const shotModeRef = useRef<ShotMode>(savedData.settings?.shotMode ?? 'free');
+  const queueRef = useRef<ShotQueue | null>(null);
+  const queueRngRef = useRef<Rng>(createRng());
+
+  // Two-player mode ("둘이서"); null while one child plays. Each player pinches their own slingshot.
+  const versusRef = useRef<VersusState | null>(null);
+  const versusPinching = useRef<{ current: boolean }[]>([{ current: false }, { current: false }]);
+  const handsRef = useRef<MediaPipeHands | null>(null); // MediaPipe, so the number of tracked hands can follow the mode
   
   // React State
-  const [loading, setLoading] = useState(true);
+  const [cameraStatus, setCameraStatus] = useState<CameraStatus>('pending');
+  const [preferredInput, setPreferredInput] = useState<InputMode>(() =>
+    savedData.settings?.preferredInput ?? (window.matchMedia?.('(pointer: coarse)').matches ? 'pointer' : 'camera')
+  );
   const [aiHint, setAiHint] = useState<string | null>("한글 선생님을 모셔오는 중...");
   const [aiRationale, setAiRationale] = useState<string | null>(null);
-  const [aimTarget, setAimTarget] = useState<Point | null>(null);
+  const [aimPath, setAimPath] = useState<Point[] | null>(null); // Suggested route after the anchor: bounce points, then the target
   const [score, setScore] = useState(0);
   const [isAiThinking, setIsAiThinking] = useState(false);
+  const [hintMode, setHintMode] = useState<HintMode>(savedData.settings?.hintMode ?? 'background');
   const [selectedColor, setSelectedColor] = useState<BubbleColor>('red');
   const [availableColors, setAvailableColors] = useState<BubbleColor[]>([]);
+  const [selectedKind, setSelectedKind] = useState<SpecialShotKind | null>(null);
+  const [shotMode, setShotMode] = useState<ShotMode>(shotModeRef.current);
+  const [queue, setQueue] = useState<ShotQueue | null>(null);
+  const [specialShots, setSpecialShots] = useState<SpecialShots>({ bomb: 0, rainbow: 0 });
+  const [combo, setCombo] = useState(0);
+  const [lastShotScore, setLastShotScore] = useState<ShotScore | null>(null);
   const [aiRecommendedColor, setAiRecommendedColor] = useState<BubbleColor | null>(null);
-  const [debugInfo, setDebugInfo] = useState<DebugInfo | null>(null);
-  const [ttsEnabled, setTtsEnabled] = useState<boolean>(false);
-  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [debugHistory, setDebugHistory] = useState<DebugInfo[]>([]);
+  const [showDebug, setShowDebug] = useState(false);
+  const [ttsEnabled, setTtsEnabled] = useState<boolean>(savedData.settings?.ttsEnabled ?? false);
+  const voicesRef = useRef<SpeechSynthesisVoice[]>([]);
+  const [shotsUntilDrop, setShotsUntilDrop] = useState<number | null>(CEILING_DROP_MISSES); // null when misses never drop the ceiling
+  const [gameOver, setGameOver] = useState(false);
+
+  // High Scores (per device)
+  const [highScores, setHighScores] = useState<HighScoreEntry[]>(loadHighScores);
+  const [playerName, setPlayerName] = useState(getLastPlayerName);
+  const [newHighScore, setNewHighScore] = useState<HighScoreEntry | null>(null);
+  const [scoreSubmitted, setScoreSubmitted] = useState(false);
+  
+  // Vocabulary Packs
+  const [vocabPack, setVocabPack] = useState<VocabPack>(DEFAULT_VOCAB_PACK);
+  const [vocabPacks, setVocabPacks] = useState<VocabPack[]>(BUILT_IN_PACKS);
+  const [showPackPicker, setShowPackPicker] = useState(false);
   
   // Hangul Celebration State
-  const [celebrationWord, setCelebrationWord] = useState<string | null>(null);
+  const [celebrationWord, setCelebrationWord] = useState<VocabWord | null>(null);
+
+  // Levels
+  const [level, setLevel] = useState<LevelDefinition | null>(null);
+  const [levelProgress, setLevelProgress] = useState(() => loadLevelProgress(profile.id));
+  const [goalProgress, setGoalProgress] = useState<GoalProgress[]>([]);
+  const [shotsLeft, setShotsLeft] = useState<number | null>(null);
+  const [showLevelSelect, setShowLevelSelect] = useState(false);
+  const [levelResult, setLevelResult] = useState<{ stars: number, score: number } | null>(null);
+  const [customLevels, setCustomLevels] = useState<LevelDefinition[]>(loadCustomLevels);
+  const [showLevelEditor, setShowLevelEditor] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
+  const [editorLevel, setEditorLevel] = useState<LevelDefinition | null>(null); // null = new level
+  const [playTest, setPlayTest] = useState<LevelDefinition | null>(null);
+
+  // Listening Quiz State
+  const [quiz, setQuiz] = useState<QuizState | null>(null);
+  const [quizFeedback, setQuizFeedback] = useState<QuizAnswer | null>(null);
+
+  // Two-Player State
+  const [versus, setVersus] = useState<VersusState | null>(null);
+  const [showVersusMenu, setShowVersusMenu] = useState(false);
+
+  // Camera is only used when it actually works; otherwise pointer input takes over
+  const inputMode: InputMode = preferredInput === 'camera' && cameraStatus !== 'failed' ? 'camera' : 'pointer';
+  const loading = inputMode === 'camera' && cameraStatus === 'pending';
 
   // Sync state to ref
+  useEffect(() => {
+    inputModeRef.current = inputMode;
+    if (inputMode === 'camera') pointerRef.current = { pos: null, down: false };
+  }, [inputMode]);
+
   useEffect(() => {
     selectedColorRef.current = selectedColor;
   }, [selectedColor]);
 
   useEffect(() => {
-    aimTargetRef.current = aimTarget;
-  }, [aimTarget]);
+    selectedKindRef.current = selectedKind;
+  }, [selectedKind]);
+
+  useEffect(() => {
+    aimPathRef.current = aimPath;
+  }, [aimPath]);
+
+  useEffect(() => {
+    vocabRef.current = vocabPack;
+  }, [vocabPack]);
 
   useEffect(() => {
     isAiThinkingRef.current = isAiThinking;
   }, [isAiThinking]);
 
+  useEffect(() => {
+    hintModeRef.current = hintMode;
+  }, [hintMode]);
+
+  useEffect(() => {
+    resumeOfferRef.current = resumeOffer;
+  }, [resumeOffer]);
+
+  useEffect(() => {
+    aiRecommendedColorRef.current = aiRecommendedColor;
+  }, [aiRecommendedColor]);
+
+  useEffect(() => {
+    saveSettings({ ttsEnabled, hintMode, preferredInput, shotMode });
+  }, [ttsEnabled, hintMode, preferredInput, shotMode]);
+
+  // Last chance to save when the tab is closed or hidden (mobile browsers may never fire unload)
+  useEffect(() => {
+    const onHide = () => {
+        if (document.visibilityState === 'hidden') saveCurrentSession();
+    };
+    window.addEventListener('pagehide', saveCurrentSession);
+    document.addEventListener('visibilitychange', onHide);
+    return () => {
+        window.removeEventListener('pagehide', saveCurrentSession);
+        document.removeEventListener('visibilitychange', onHide);
+    };
+  }, []);
+
   // Load Voices
   useEffect(() => {
     const loadVoices = () => {
-        setVoices(window.speechSynthesis.getVoices());
+        voicesRef.current = window.speechSynthesis.getVoices();
     };
     loadVoices();
     window.speechSynthesis.onvoiceschanged = loadVoices;
   }, []);
 
-  // TTS Helper - Improved for Natural Voice
+  // TTS Helper - Improved for Natural Voice (voices come from a ref so the render loop's copy stays current)
   const speakText = useCallback((text: string) => {
     if (!window.speechSynthesis) return;
     window.speechSynthesis.cancel();
@@ -125,6 +289,7 @@ const GeminiSlingshot: React.FC = () => {
     utterance.lang = 'ko-KR';
     
     // Attempt to find "Google 한국어" or similar high-quality voice
+    const voices = voicesRef.current;
     const korVoice = voices.find(v => v.lang.includes('ko') && v.name.includes('Google')) 
                   || voices.find(v => v.lang.includes('ko'));
                   
@@ -136,7 +301,7 @@ const GeminiSlingshot: React.FC = () => {
     utterance.rate = 1.0;  // Natural speed
     
     window.speechSynthesis.speak(utterance);
-  }, [voices]);
+  }, []);
 
   // Auto-speak hint when it changes if TTS is enabled
   useEffect(() => {
@@ -148,29 +313,52 @@ const GeminiSlingshot: React.FC = () => {
   // Clear celebration after delay
   useEffect(() => {
     if (celebrationWord) {
-        if (ttsEnabled) speakText("참 잘했어요! " + celebrationWord);
+        if (ttsEnabled) {
+            // Prefer the pack's recorded pronunciation over synthesized speech
+            if (celebrationWord.audio) {
+                window.speechSynthesis?.cancel();
+                new Audio(celebrationWord.audio).play().catch(() => speakText("참 잘했어요! " + celebrationWord.word));
+            } else {
+                speakText("참 잘했어요! " + celebrationWord.word);
+            }
+        }
         const timer = setTimeout(() => {
             setCelebrationWord(null);
         }, 2000);
         return () => clearTimeout(timer);
     }
   }, [celebrationWord, ttsEnabled, speakText]);
-  
-  const getBubblePos = (row: number, col: number, width: number) => {
-    // Dynamically calculate xOffset to center the grid based on current screen width
-    const xOffset = (width - (GRID_COLS * BUBBLE_RADIUS * 2)) / 2 + BUBBLE_RADIUS;
-    const isOdd = row % 2 !== 0;
-    const x = xOffset + col * (BUBBLE_RADIUS * 2) + (isOdd ? BUBBLE_RADIUS : 0);
-    const y = BUBBLE_RADIUS + row * ROW_HEIGHT + GRID_TOP_OFFSET;
-    return { x, y };
-  };
 
+  useEffect(() => {
+    if (!quizFeedback) return;
+    const timer = setTimeout(() => setQuizFeedback(null), QUIZ_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [quizFeedback]);
+  
   const updateAvailableColors = () => {
-    const activeColors = new Set<BubbleColor>();
-    bubbles.current.forEach(b => {
-        if (b.active) activeColors.add(b.color);
-    });
+    const engine = engineRef.current;
+    if (!engine) return;
+    // Only stones and rainbows left: any of the board's words may be shot to link or knock them down
+    const matchable = getMatchableColors(engine.state.bubbles);
+    const activeColors = new Set<BubbleColor>(
+        matchable.length > 0 || !engine.state.bubbles.some(b => b.active) ? matchable : (levelRef.current?.colors ?? COLOR_KEYS)
+    );
     setAvailableColors(Array.from(activeColors));
+
+    // Each player's slingshot keeps a word that is still on the board
+    if (versusRef.current) {
+        applyVersus(refreshVersusColors(versusRef.current, Array.from(activeColors)));
+        return;
+    }
+
+    // Queue mode re-deals any ball whose word has left the board (the quiz picks its own ball)
+    if (shotModeRef.current === 'queue' && !quizRef.current) {
+        const colors = Array.from(activeColors);
+        applyQueue(queueRef.current
+            ? refreshShotQueue(queueRef.current, queueRngRef.current, colors)
+            : createShotQueue(queueRngRef.current, colors));
+        return;
+    }
     
     // If current selected color is gone, switch to first available
     if (!activeColors.has(selectedColorRef.current) && activeColors.size > 0) {
@@ -179,27 +367,8 @@ const GeminiSlingshot: React.FC = () => {
     }
   };
 
-  const initGrid = useCallback((width: number) => {
-    const newBubbles: Bubble[] = [];
-    for (let r = 0; r < GRID_ROWS; r++) { 
-      // Ensure we fill enough columns to look "spread out"
-      for (let c = 0; c < (r % 2 !== 0 ? GRID_COLS - 1 : GRID_COLS); c++) {
-        // Higher probability to spawn to make it look dense horizontally
-        if (Math.random() > 0.15) { 
-            const { x, y } = getBubblePos(r, c, width);
-            newBubbles.push({
-              id: `${r}-${c}`,
-              row: r,
-              col: c,
-              x,
-              y,
-              color: COLOR_KEYS[Math.floor(Math.random() * COLOR_KEYS.length)],
-              active: true
-            });
-        }
-      }
-    }
-    bubbles.current = newBubbles;
+  // Called whenever the engine deals a fresh board
+  const onNewBoard = useCallback(() => {
     updateAvailableColors();
     
     // Trigger initial AI analysis after a short delay to allow render
@@ -208,6 +377,329 @@ const GeminiSlingshot: React.FC = () => {
     }, 2000);
   }, []);
 
+  const importVocabPack = (pack: VocabPack) => {
+    // Re-importing a pack with the same id replaces the older copy
+    setVocabPacks(prev => [...prev.filter(p => p.id !== pack.id), pack]);
+    setVocabPack(pack);
+  };
+
+  const exportDebugSession = () => {
+    const engine = engineRef.current;
+    downloadJson(`slingshot-ai-session_${fileTimestamp()}.json`, {
+      exportedAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      vocabPack: vocabRef.current.id,
+      seed: engine?.state.seed,
+      score: engine?.state.score,
+      bubbles: engine?.state.bubbles.filter(b => b.active),
+      calls: debugHistory,
+      recording: recordingRef.current // Re-runs the game in the replay viewer
+    });
+  };
+
+  // Autosave: refs only, so it is safe to call from the render loop and page lifecycle events
+  const saveCurrentSession = () => {
+    const engine = engineRef.current;
+    // Quiz rounds and two-player games are short and not resumable, play-tests are the teacher's
+    if (!engine || engine.state.gameOver || resumeOfferRef.current || quizRef.current || versusRef.current || playTestRef.current) return;
+    saveSession({
+      savedAt: new Date().toISOString(),
+      board: engine.saveBoard(),
+      selectedColor: selectedColorRef.current,
+      queue: queueRef.current ?? undefined,
+      vocabPack: vocabRef.current
+    });
+  };
+
+  const resumeSession = (session: SavedSession) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    cancelPendingHint();
+    applyLevel([...BUILT_IN_LEVELS, ...customLevels].find(l => l.id === session.board.levelId) ?? null);
+    engine.restoreBoard(session.board);
+    progressRef.current = startSessionRecord(profile.id, session.vocabPack);
+    recordingRef.current = startRecording(engine, session.vocabPack);
+    shownHintRef.current = null;
+    particles.current = [];
+    popups.current = [];
+    setLastShotScore(null);
+    isPinching.current = false;
+
+    const pack = session.vocabPack;
+    if (!vocabPacks.some(p => p.id === pack.id)) setVocabPacks(prev => [...prev, pack]);
+    vocabRef.current = pack;
+    setVocabPack(pack);
+    selectedColorRef.current = session.selectedColor;
+    setSelectedColor(session.selectedColor);
+    applyQueue(shotModeRef.current === 'queue' ? session.queue ?? null : null);
+
+    setScore(engine.state.score);
+    updateBoardHud();
+    setGameOver(false);
+    setAimPath(null);
+    setAiRecommendedColor(null);
+    resumeOfferRef.current = null;
+    setResumeOffer(null);
+    onNewBoard();
+  };
+
+  const declineResume = () => {
+    clearSession();
+    resumeOfferRef.current = null;
+    setResumeOffer(null);
+    saveCurrentSession();
+  };
+
+  const submitHighScore = () => {
+    const engine = engineRef.current;
+    if (!engine || scoreSubmitted) return;
+    const entry: HighScoreEntry = {
+      name: playerName.trim() || "이름 없음",
+      score: engine.state.score,
+      date: new Date().toISOString(),
+      vocabPackId: vocabRef.current.id,
+      vocabPackName: vocabRef.current.name
+    };
+    setHighScores(addHighScore(entry));
+    setNewHighScore(entry);
+    setScoreSubmitted(true);
+  };
+
+  // Drops the in-flight hint (its response is logged but never shown) and unlocks the slingshot
+  const cancelPendingHint = () => {
+    if (!hintAbortRef.current) return;
+    hintAbortRef.current.abort();
+    hintAbortRef.current = null;
+    isAiThinkingRef.current = false;
+    setIsAiThinking(false);
+  };
+
+  const restartGame = () => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    cancelPendingHint();
+    engine.setColorWeights(getColorWeights(learnerRef.current, vocabRef.current));
+    engine.reset();
+    applyQueue(null); // Dealt again from the new board
+    if (versusRef.current) applyVersus(createVersus(versusRef.current.mode, getBoardColors())); // Rematch: same mode, fresh balls
+    progressRef.current = startSessionRecord(profile.id, vocabRef.current);
+    recordingRef.current = versusRef.current ? null : startRecording(engine, vocabRef.current); // Replays are single-player
+    shownHintRef.current = null;
+    particles.current = [];
+    popups.current = [];
+    setLastShotScore(null);
+    isPinching.current = false;
+    versusPinching.current.forEach(p => p.current = false);
+    setScore(0);
+    updateBoardHud();
+    setGameOver(false);
+    setLevelResult(null);
+    setAimPath(null);
+    setAiRecommendedColor(null);
+    setNewHighScore(null);
+    setScoreSubmitted(false);
+    saveCurrentSession();
+    onNewBoard();
+  };
+
+  // Ceiling countdown and level goals, read back from the engine after anything changes the board
+  const updateBoardHud = () => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    const { state } = engine;
+    const { dropMisses } = getCeilingRules(state.level);
+    setShotsUntilDrop(dropMisses > 0 ? dropMisses - state.missedShots : null);
+    setGoalProgress(state.level ? getGoalProgress(state.level.goals, state) : []);
+    setShotsLeft(state.shotsLeft);
+    setSpecialShots(state.specialShots);
+    setCombo(state.slingshots[0].combo);
+    if (selectedKindRef.current && state.specialShots[selectedKindRef.current] === 0) setSelectedKind(null);
+  };
+
+  // Takes effect with the next restart or resume
+  const applyLevel = (next: LevelDefinition | null) => {
+    levelRef.current = next;
+    setLevel(next);
+    engineRef.current?.setLevel(next);
+    playTestRef.current = null;
+    setPlayTest(null);
+  };
+
+  const selectLevel = (next: LevelDefinition | null) => {
+    setShowLevelSelect(false);
+    if (quizRef.current) {
+        applyQuiz(null);
+        setQuizFeedback(null);
+    }
+    applyLevel(next);
+    restartGame();
+  };
+
+  // Only built-in levels form a sequence; custom levels stand alone
+  const levelIndex = level ? BUILT_IN_LEVELS.findIndex(l => l.id === level.id) : -1;
+  const nextLevel = levelIndex >= 0 ? BUILT_IN_LEVELS[levelIndex + 1] : undefined;
+
+  // --- Level Editor ---
+  const openLevelEditor = (initial: LevelDefinition | null) => {
+    setShowLevelSelect(false);
+    setLevelResult(null);
+    setEditorLevel(initial);
+    setShowLevelEditor(true);
+  };
+
+  const startPlayTest = (draft: LevelDefinition) => {
+    setShowLevelEditor(false);
+    setEditorLevel(draft); // "Back to editing" reopens the editor on this draft
+    selectLevel(draft);
+    playTestRef.current = draft;
+    setPlayTest(draft);
+    clearSession(); // The restart above autosaved before the play-test flag was set
+  };
+
+  const saveLevel = (saved: LevelDefinition) => setCustomLevels(saveCustomLevel(saved));
+
+  const removeLevel = (removed: LevelDefinition) => {
+    setCustomLevels(deleteCustomLevel(removed.id));
+    if (levelRef.current?.id === removed.id) selectLevel(null);
+  };
+
+  const openReplay = (open: boolean) => {
+    replayOpenRef.current = open;
+    setShowReplay(open);
+  };
+
+  // Doesn't touch the selection when switching back to free pick
+  const applyQueue = (next: ShotQueue | null) => {
+    queueRef.current = next;
+    setQueue(next);
+    if (next) {
+        selectedColorRef.current = next.current;
+        setSelectedColor(next.current);
+    }
+  };
+
+  const changeShotMode = (mode: ShotMode) => {
+    shotModeRef.current = mode;
+    setShotMode(mode);
+    applyQueue(mode === 'queue' && !quizRef.current ? createShotQueue(queueRngRef.current, getBoardColors()) : null);
+    captureRequestRef.current = true; // Advice for the ball the player now holds
+  };
+
+  // Never while the ball is being pulled back
+  const swapQueue = () => {
+    if (!queueRef.current || isPinching.current) return;
+    applyQueue(swapShotQueue(queueRef.current));
+    captureRequestRef.current = true;
+  };
+
+  // --- Two Players ---
+  const applyVersus = (next: VersusState | null) => {
+    versusRef.current = next;
+    setVersus(next);
+  };
+
+  // MediaPipe may not have loaded yet; it picks the count up from the mode when it does
+  const setTrackedHands = (count: number) => handsRef.current?.setOptions({ maxNumHands: count });
+
+  const startVersus = (mode: VersusMode) => {
+    setShowVersusMenu(false);
+    if (quizRef.current) {
+        applyQuiz(null);
+        setQuizFeedback(null);
+    }
+    applyLevel(null); // Two-player games always use a free-play board
+    engineRef.current?.setPlayers(2);
+    applyVersus(createVersus(mode, []));
+    setTrackedHands(2);
+    restartGame();
+    clearSession(); // The solo game is over, don't offer it again
+  };
+
+  const exitVersus = () => {
+    applyVersus(null);
+    engineRef.current?.setPlayers(1);
+    setTrackedHands(1);
+    restartGame();
+  };
+
+  // The match ends once every ball has been used and has landed, or when the board is empty.
+  // Checked every frame from the board itself, so it never waits on an engine event.
+  const settleVersus = () => {
+    const engine = engineRef.current;
+    const current = versusRef.current;
+    if (!engine || !current || current.ending) return;
+    if (!engine.state.bubbles.some(b => b.active)) {
+        applyVersus(finishVersus(current, 'cleared'));
+    } else if (isVersusOutOfShots(current) && !engine.state.slingshots.some(s => s.ball.flying)) {
+        applyVersus(finishVersus(current, 'shots'));
+    }
+  };
+
+  // The quiz keeps its own score; the engine's colour-matching points don't count there
+  const getDisplayedScore = () => quizRef.current ? quizRef.current.score : (engineRef.current?.state.score ?? 0);
+
+  const getBoardColors = () => getMatchableColors(engineRef.current?.state.bubbles ?? []);
+
+  // The quiz always speaks, whatever the hint voice setting: hearing the word is the whole game
+  const announceQuizTarget = (next: QuizState, prefix: string = "") => {
+    if (next.target === null) return;
+    speakText(`${prefix}${vocabRef.current.words[next.target].word}`);
+  };
+
+  // The ball carries the asked word, so a correct hit can also pop a cluster of it
+  const applyQuiz = (next: QuizState | null) => {
+    quizRef.current = next;
+    setQuiz(next);
+    if (next?.target) {
+        selectedColorRef.current = next.target;
+        setSelectedColor(next.target);
+    }
+  };
+
+  const startQuiz = () => {
+    applyLevel(null); // Quiz rounds always use a free-play board
+    restartGame();
+    clearSession();
+    const next = createQuiz(quizRngRef.current, getBoardColors(), getColorWeights(learnerRef.current, vocabRef.current));
+    applyQueue(null); // The quiz hands out the ball; queue mode picks up again after it
+    applyQuiz(next);
+    setQuizFeedback(null);
+    setScore(0);
+    announceQuizTarget(next, "잘 듣고 맞춰요. ");
+  };
+
+  const exitQuiz = () => {
+    applyQuiz(null);
+    setQuizFeedback(null);
+    restartGame();
+  };
+
+  // Listening quiz: the bubble the ball touched is the answer. A ceiling hit gets another try, and so does
+  // a stone or rainbow: they show no word, so their hidden colour can't be graded or read out.
+  const answerQuizShot = (current: QuizState, hit: Bubble | null) => {
+    if (current.target === null) return;
+    const words = vocabRef.current.words;
+    if (!hit || !hasWord(hit)) {
+        announceQuizTarget(current, "다시 해 봐요. ");
+        return;
+    }
+
+    const next = answerQuiz(current, hit.color, quizRngRef.current, getBoardColors(), getColorWeights(learnerRef.current, vocabRef.current));
+    const answer = next.answers[next.answers.length - 1];
+    applyQuiz(next);
+    setQuizFeedback(answer);
+    recordLearning(answer.target, answer.correct);
+
+    const reaction = answer.correct
+        ? `정답이에요! ${words[answer.target].word}. `
+        : `아쉬워요! 그건 ${words[answer.hit].word}. `;
+    if (isQuizFinished(next)) {
+        speakText(`${reaction}끝! 잘했어요.`);
+    } else {
+        announceQuizTarget(next, `${reaction}다음 단어, `);
+    }
+  };
+
   const createExplosion = (x: number, y: number, color: string) => {
     for (let i = 0; i < 20; i++) {
       particles.current.push({
@@ -221,173 +713,182 @@ const GeminiSlingshot: React.FC = () => {
     }
   };
 
-  const isPathClear = (target: Bubble) => {
-    if (!anchorPos.current) return false;
-    
-    const startX = anchorPos.current.x;
-    const startY = anchorPos.current.y;
-    const endX = target.x;
-    const endY = target.y;
-
-    const dx = endX - startX;
-    const dy = endY - startY;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    const steps = Math.ceil(distance / (BUBBLE_RADIUS / 2)); 
-
-    for (let i = 1; i < steps - 2; i++) { 
-        const t = i / steps;
-        const cx = startX + dx * t;
-        const cy = startY + dy * t;
-
-        for (const b of bubbles.current) {
-            if (!b.active || b.id === target.id) continue;
-            const distSq = Math.pow(cx - b.x, 2) + Math.pow(cy - b.y, 2);
-            if (distSq < Math.pow(BUBBLE_RADIUS * 1.8, 2)) {
-                return false; 
-            }
-        }
+  // "+N" where the group popped, then the combo and clear bonuses stacked above it
+  const showScorePopups = (popped: Bubble[], shot: ShotScore) => {
+    if (popped.length === 0 || shot.total === 0) return;
+    const x = popped.reduce((sum, b) => sum + b.x, 0) / popped.length;
+    const y = popped.reduce((sum, b) => sum + b.y, 0) / popped.length;
+    popups.current.push({ x, y, text: `+${(shot.match + shot.drop).toLocaleString()}`, color: '#ffffff', size: 28, life: 1 });
+    if (shot.comboBonus > 0) {
+        popups.current.push({ x, y: y - 36, text: `${shot.combo}연속! +${shot.comboBonus.toLocaleString()}`, color: '#ffa726', size: 24, life: 1 });
+    }
+    if (shot.clearBonus > 0) {
+        popups.current.push({ x, y: y - 72, text: `모두 없앴어요! +${shot.clearBonus.toLocaleString()}`, color: '#66bb6a', size: 30, life: 1 });
     }
-    return true;
   };
 
-  const getAllReachableClusters = (): TargetCandidate[] => {
-    const activeBubbles = bubbles.current.filter(b => b.active);
-    const uniqueColors = Array.from(new Set(activeBubbles.map(b => b.color))) as BubbleColor[];
-    const allClusters: TargetCandidate[] = [];
-
-    // Analyze opportunities for ALL colors
-    for (const color of uniqueColors) {
-        const visited = new Set<string>();
-        
-        for (const b of activeBubbles) {
-            if (b.color !== color || visited.has(b.id) && b.color === color) continue;
-
-            const clusterMembers: Bubble[] = [];
-            const queue = [b];
-            visited.add(b.id);
-
-            while (queue.length > 0) {
-                const curr = queue.shift()!;
-                clusterMembers.push(curr);
-                
-                const neighbors = activeBubbles.filter(n => 
-                    !visited.has(n.id) && n.color === color && isNeighbor(curr, n)
-                );
-                neighbors.forEach(n => {
-                    visited.add(n.id);
-                    queue.push(n);
-                });
-            }
-
-            // Check if this cluster is hittable
-            clusterMembers.sort((a,b) => b.y - a.y); 
-            const hittableMember = clusterMembers.find(m => isPathClear(m));
-
-            if (hittableMember) {
-                const xPct = hittableMember.x / (gameContainerRef.current?.clientWidth || window.innerWidth);
-                let desc = "Center";
-                if (xPct < 0.33) desc = "Left";
-                else if (xPct > 0.66) desc = "Right";
-
-                allClusters.push({
-                    id: hittableMember.id,
-                    color: color,
-                    size: clusterMembers.length,
-                    row: hittableMember.row,
-                    col: hittableMember.col,
-                    pointsPerBubble: COLOR_CONFIG[color].points,
-                    description: `${desc}`
-                });
-            }
-        }
+  const recordLearning = (shotColor: BubbleColor, popped: boolean) => {
+    const words = vocabRef.current.words;
+    let history = recordShot(learnerRef.current, words[shotColor], popped);
+    const recommended = aiRecommendedColorRef.current;
+    if (recommended && recommended !== shotColor) {
+        history = recordIgnoredHint(history, words[recommended]);
+    }
+    learnerRef.current = history;
+    saveLearnerHistory(history);
+
+    if (progressRef.current) {
+        progressRef.current = recordSessionShot(
+            progressRef.current, words[shotColor], popped, recommended === shotColor, getDisplayedScore()
+        );
+        saveSessionRecord(progressRef.current);
     }
-    return allClusters;
   };
 
-  const checkMatches = (startBubble: Bubble) => {
-    const toCheck = [startBubble];
-    const visited = new Set<string>();
-    const matches: Bubble[] = [];
-    const targetColor = startBubble.color;
-
-    while (toCheck.length > 0) {
-      const current = toCheck.pop()!;
-      if (visited.has(current.id)) continue;
-      visited.add(current.id);
-
-      if (current.color === targetColor) {
-        matches.push(current);
-        const neighbors = bubbles.current.filter(b => b.active && !visited.has(b.id) && isNeighbor(current, b));
-        toCheck.push(...neighbors);
+  // Turns engine events into effects, sounds and React state
+  const handleEngineEvents = (events: EngineEvent[]) => {
+    const engine = engineRef.current;
+    if (!engine || events.length === 0) return;
+
+    for (const event of events) {
+      switch (event.type) {
+        case 'shot': {
+          const { popped, placed } = event.resolution;
+          popped.forEach(b => createExplosion(b.x, b.y, getBubbleHex(b.color, b.kind)));
+          if (quizRef.current) {
+            answerQuizShot(quizRef.current, event.hit);
+            updateAvailableColors();
+            break;
+          }
+          // Two players share one profile, so their shots stay out of its learning history and statistics
+          if (versusRef.current) {
+            showScorePopups(popped, event.score);
+            applyVersus(scoreVersusShot(versusRef.current, event.player, [...popped, ...event.resolution.dropped], event.score.total));
+            if (popped.length > 0 && placed.kind !== 'rainbow') setCelebrationWord(vocabRef.current.words[placed.color]);
+            updateAvailableColors();
+            break;
+          }
+          showScorePopups(popped, event.score);
+          if (event.score.total > 0) setLastShotScore(event.score);
+          if (progressRef.current) progressRef.current = recordSessionScore(progressRef.current, event.score); // Saved with the shot below
+          // Trigger Word Celebration (a rainbow ball has no word, so celebrate one it matched)
+          const celebrated = placed.kind === 'rainbow' ? popped.find(hasWord) : popped.length > 0 ? placed : undefined;
+          if (celebrated) setCelebrationWord(vocabRef.current.words[celebrated.color]);
+          if (placed.kind !== 'rainbow') recordLearning(placed.color, popped.length > 0);
+          updateAvailableColors();
+          // Request AI Analysis for next frame (a hint still pending for the old board is cancelled there)
+          captureRequestRef.current = true;
+          break;
+        }
+        case 'lost':
+          if (versusRef.current) applyVersus(scoreVersusShot(versusRef.current, event.player, [], 0));
+          if (quizRef.current) announceQuizTarget(quizRef.current, "다시 해 봐요. ");
+          if (queueRef.current) captureRequestRef.current = true; // Same board, but a different ball to advise on
+          break;
+        case 'landed':
+          createExplosion(event.bubble.x, event.bubble.y, getBubbleHex(event.bubble.color, event.bubble.kind));
+          break;
+        case 'ceiling':
+          if (event.cause === 'timer' && recordingRef.current) recordingRef.current = addRecordedTimerDrop(recordingRef.current);
+          captureRequestRef.current = true;
+          break;
+        case 'won': {
+          const won = engine.state.level!;
+          const stars = getStarCount(won, engine.state.score);
+          if (!playTestRef.current) setLevelProgress(prev => recordLevelResult(prev, won.id, stars, engine.state.score));
+          setLevelResult({ stars, score: engine.state.score });
+          clearSession();
+          break;
+        }
+        case 'gameover':
+          clearSession();
+          if (quizRef.current) applyQuiz(endQuiz(quizRef.current));
+          if (versusRef.current) applyVersus(finishVersus(versusRef.current, 'danger'));
+          setGameOver(true);
+          break;
       }
     }
 
-    if (matches.length >= 3) {
-      let points = 0;
-      const basePoints = COLOR_CONFIG[targetColor].points;
-      
-      matches.forEach(b => {
-        b.active = false;
-        createExplosion(b.x, b.y, COLOR_CONFIG[b.color].hex);
-        points += basePoints;
-      });
-      // Combo Multiplier
-      const multiplier = matches.length > 3 ? 1.5 : 1.0;
-      scoreRef.current += Math.floor(points * multiplier);
-      setScore(scoreRef.current);
-      
-      // Trigger Word Celebration
-      setCelebrationWord(COLOR_CONFIG[targetColor].label);
-      
-      return true;
+    if (events.some(e => e.type === 'shot' || e.type === 'lost' || e.type === 'ceiling')) {
+      saveCurrentSession();
     }
-    return false;
-  };
 
-  const isNeighbor = (a: Bubble, b: Bubble) => {
-    const dr = b.row - a.row;
-    const dc = b.col - a.col;
-    if (Math.abs(dr) > 1) return false;
-    if (dr === 0) return Math.abs(dc) === 1;
-    if (a.row % 2 !== 0) {
-        return dc === 0 || dc === 1;
-    } else {
-        return dc === -1 || dc === 0;
-    }
+    setScore(getDisplayedScore());
+    updateBoardHud();
   };
 
   const performAiAnalysis = async (screenshot: string) => {
-    // Lock interaction immediately via ref (fast) and state (render)
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    // Mark thinking immediately via ref (fast) and state (render); in blocking mode this also locks the slingshot
     isAiThinkingRef.current = true;
     setIsAiThinking(true);
     setAiHint("단어를 찾는 중...");
+    shownHintRef.current = null;
     setAiRationale(null);
     setAiRecommendedColor(null);
-    setAimTarget(null);
+    setAimPath(null);
 
     // Client-Side Pre-Calc for ALL colors
-    const allClusters = getAllReachableClusters();
-    const maxRow = bubbles.current.reduce((max, b) => b.active ? Math.max(max, b.row) : max, 0);
+    const board = engine.getSnapshot(CRITICAL_ROW_MARGIN, queueRef.current?.current);
 
     const canvasWidth = canvasRef.current?.width || 1000;
 
-    getStrategicHint(
+    if (!hintConfigRef.current || !hintProviderRef.current) {
+        hintConfigRef.current = loadHintConfig();
+        hintProviderRef.current = createHintProvider(hintConfigRef.current);
+    }
+
+    hintAbortRef.current?.abort();
+    const controller = new AbortController();
+    hintAbortRef.current = controller;
+
+    requestHint(hintProviderRef.current, {
         screenshot,
-        allClusters,
-        maxRow
-    ).then(aiResponse => {
-        const { hint, debug } = aiResponse;
-        setDebugInfo(debug);
+        board,
+        vocab: vocabRef.current,
+        practice: getPracticeWords(learnerRef.current, vocabRef.current),
+        signal: controller.signal
+    }, hintConfigRef.current).then(aiResponse => {
+        let { hint, debug } = aiResponse;
+
+        // Superseded by a newer request or a restart: keep the record, leave the screen alone
+        if (controller.signal.aborted) {
+            setDebugHistory(prev => [...prev, { ...debug, outcome: 'cancelled' as const }].slice(-DEBUG_HISTORY_SIZE));
+            return;
+        }
+        hintAbortRef.current = null;
+
+        // A late answer may aim at bubbles that are already gone; re-solve the board as it is now
+        const current = engineRef.current;
+        if (!current || current !== engine || current.state.boardVersion !== board.version) {
+            const latest = (current || engine).getSnapshot(CRITICAL_ROW_MARGIN, queueRef.current?.current);
+            hint = solveStrategicHint(latest, vocabRef.current);
+            debug = {
+                ...debug,
+                outcome: 'stale',
+                error: `Board changed while waiting (v${board.version} -> v${latest.version}), local solver used`
+            };
+        }
+
+        setDebugHistory(prev => [...prev, debug].slice(-DEBUG_HISTORY_SIZE));
         setAiHint(hint.message);
+        shownHintRef.current = hint;
         setAiRationale(hint.rationale || null);
         
         if (typeof hint.targetRow === 'number' && typeof hint.targetCol === 'number') {
             if (hint.recommendedColor) {
+                if (progressRef.current) progressRef.current = recordSessionHint(progressRef.current);
                 setAiRecommendedColor(hint.recommendedColor);
-                setSelectedColor(hint.recommendedColor); // Auto-equip recommendation
+                // Auto-equip recommendation, but never swap the ball the player is already pulling (or was dealt)
+                if (!isPinching.current && !queueRef.current) setSelectedColor(hint.recommendedColor);
             }
-            const pos = getBubblePos(hint.targetRow, hint.targetCol, canvasWidth);
-            setAimTarget(pos);
+            // Draw the real route (possibly off a wall); an empty target cell just gets a straight line
+            const plan = engine.planShot(hint.targetRow, hint.targetCol);
+            setAimPath(plan
+                ? plan.path.slice(1)
+                : [getBubblePos(hint.targetRow, hint.targetCol, canvasWidth, engine.state.ceilingRows)]);
         }
         
         // Unlock
@@ -396,47 +897,32 @@ const GeminiSlingshot: React.FC = () => {
     });
   };
 
-  // --- Rendering Helper ---
-  const drawBubble = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, colorKey: BubbleColor) => {
-    const config = COLOR_CONFIG[colorKey];
-    const baseColor = config.hex;
-    
-    // Main Sphere Gradient
-    const grad = ctx.createRadialGradient(x - radius * 0.3, y - radius * 0.3, radius * 0.1, x, y, radius);
-    grad.addColorStop(0, '#ffffff');             // Specular highlight center (brightest)
-    grad.addColorStop(0.2, baseColor);           // Main color body
-    grad.addColorStop(1, adjustColor(baseColor, -60)); // Shadowed edge (darkest)
-
-    ctx.beginPath();
-    ctx.arc(x, y, radius, 0, Math.PI * 2);
-    ctx.fillStyle = grad;
-    ctx.fill();
-
-    // Subtle Outline
-    ctx.strokeStyle = adjustColor(baseColor, -80);
-    ctx.lineWidth = 1;
-    ctx.stroke();
-    
-    // Secondary "Glossy" Highlight
-    ctx.beginPath();
-    ctx.ellipse(x - radius * 0.3, y - radius * 0.35, radius * 0.25, radius * 0.15, Math.PI / 4, 0, Math.PI * 2);
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-    ctx.fill();
-    
-    // Draw Text (Hangul Word) with Horizontal Flip fix
-    // Because the canvas has scaleX(-1) in CSS (to mirror webcam), normal text appears mirrored.
-    // We must scale(-1, 1) locally to flip it back for the viewer.
-    ctx.save();
-    ctx.translate(x, y); // Move to bubble center
-    ctx.scale(-1, 1);    // Flip horizontally
-    ctx.fillStyle = config.textColor;
-    ctx.font = 'bold 16px Roboto, sans-serif'; // Larger Font
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.shadowColor = 'rgba(0,0,0,0.5)';
-    ctx.shadowBlur = 2;
-    ctx.fillText(config.label, 0, 1); // Draw at (0, 0) relative to translation
-    ctx.restore();
+  // --- Pointer Input ---
+  // The canvas is mirrored with CSS, so screen x has to be flipped back into canvas space
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (rect.right - e.clientX) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (inputModeRef.current !== 'pointer') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerRef.current = { pos: toCanvasPoint(e), down: true };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (inputModeRef.current !== 'pointer') return;
+    pointerRef.current.pos = toCanvasPoint(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (inputModeRef.current !== 'pointer') return;
+    pointerRef.current.down = false;
+    if (e.pointerType !== 'mouse') pointerRef.current.pos = null; // No hover cursor for touch
   };
 
   // --- Main Game Loop ---
@@ -450,18 +936,39 @@ const GeminiSlingshot: React.FC = () => {
     const ctx = canvas.getContext('2d', { willReadFrequently: true });
     if (!ctx) return;
     
-    // Set initial size based on container
-    canvas.width = container.clientWidth;
-    canvas.height = container.clientHeight;
+    // Logical canvas size: the container size, scaled up on narrow screens so the whole grid fits
+    const getCanvasSize = () => {
+        const scale = Math.max(1, MIN_LOGICAL_WIDTH / container.clientWidth);
+        return { width: Math.round(container.clientWidth * scale), height: Math.round(container.clientHeight * scale) };
+    };
 
-    anchorPos.current = { x: canvas.width / 2, y: canvas.height - SLINGSHOT_BOTTOM_OFFSET };
-    ballPos.current = { ...anchorPos.current };
-    
-    initGrid(canvas.width);
+    // Set initial size based on container
+    const initialSize = getCanvasSize();
+    canvas.width = initialSize.width;
+    canvas.height = initialSize.height;
+
+    const engine = createGameEngine({
+        width: canvas.width,
+        height: canvas.height,
+        colorWeights: getColorWeights(learnerRef.current, vocabRef.current),
+        level: levelRef.current
+    });
+    engineRef.current = engine;
+    progressRef.current = startSessionRecord(profile.id, vocabRef.current);
+    recordingRef.current = startRecording(engine, vocabRef.current);
+    onNewBoard();
 
     let camera: any = null;
-    let hands: any = null;
+    let hands: MediaPipeHands | null = null;
     let initInterval: any = null; // POLLING INTERVAL
+    let animationFrame = 0;
+    let latestResults: any = null;
+
+    const failCamera = (reason: unknown) => {
+        console.warn("Camera unavailable, switching to pointer controls:", reason);
+        setCameraStatus(prev => prev === 'pending' ? 'failed' : prev);
+    };
+    const cameraTimeout = setTimeout(() => failCamera("timed out"), CAMERA_TIMEOUT_MS);
 
     // FUNCTION TO TRY INITIALIZING MEDIAPIPE (Fix for black screen)
     const tryInitialize = () => {
@@ -476,8 +983,9 @@ const GeminiSlingshot: React.FC = () => {
             hands = new window.Hands({
                 locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
             });
+            handsRef.current = hands;
             hands.setOptions({
-                maxNumHands: 1,
+                maxNumHands: versusRef.current ? 2 : 1,
                 modelComplexity: 1,
                 minDetectionConfidence: 0.5,
                 minTrackingConfidence: 0.5,
@@ -492,7 +1000,7 @@ const GeminiSlingshot: React.FC = () => {
                     width: 1280,
                     height: 720,
                 });
-                camera.start();
+                Promise.resolve(camera.start()).catch(failCamera);
             }
             return true;
         } catch (e) {
@@ -501,248 +1009,200 @@ const GeminiSlingshot: React.FC = () => {
         }
     };
 
+    // MediaPipe only delivers the latest frame; the render loop below runs on its own clock
     const onResults = (results: any) => {
-      setLoading(false);
-      
-      // Responsive Resize & Re-centering Logic
-      if (canvas.width !== container.clientWidth || canvas.height !== container.clientHeight) {
-        const oldWidth = canvas.width;
-        canvas.width = container.clientWidth;
-        canvas.height = container.clientHeight;
-        
-        // Dynamic re-centering of existing elements
-        if (oldWidth > 0) {
-            const xShift = (canvas.width - oldWidth) / 2;
-            bubbles.current.forEach(b => b.x += xShift);
-            particles.current.forEach(p => p.x += xShift);
-            if (isFlying.current || isPinching.current) {
-                 ballPos.current.x += xShift;
-            }
+      latestResults = results;
+      clearTimeout(cameraTimeout);
+      setCameraStatus('ready');
+    };
+
+    // Pinch near the ball to pick it up, pull, let go; returns true when a ball was fired
+    const pullSlingshot = (
+        player: number, hand: HandInput | undefined, pinching: { current: boolean },
+        locked: boolean, color: BubbleColor, kind: SpecialShotKind | null
+    ) => {
+      const { ball } = engine.state.slingshots[player];
+      if (!locked && hand?.grabbing && !ball.flying) {
+        const distToBall = Math.sqrt(Math.pow(hand.pos.x - ball.pos.x, 2) + Math.pow(hand.pos.y - ball.pos.y, 2));
+        if (!pinching.current && distToBall < GRAB_RADIUS) {
+           pinching.current = true;
         }
         
-        anchorPos.current = { x: canvas.width / 2, y: canvas.height - SLINGSHOT_BOTTOM_OFFSET };
-        if (!isFlying.current && !isPinching.current) {
-          ballPos.current = { ...anchorPos.current };
+        if (pinching.current) {
+            engine.aim(hand.pos, player);
         }
+        return false;
+      }
+      if (!pinching.current) return false;
+
+      // Release or Forced Release if Locked
+      pinching.current = false;
+      if (locked) {
+          // If we lock while pinching, reset to anchor
+          engine.cancelAim(player);
+          return false;
+      }
+      return engine.release(color, kind ?? 'normal', player);
+    };
+
+    // Two players: a hand belongs to the slingshot closest to it across the screen
+    const getNearestSlingshot = (pos: Point) => {
+      const { slingshots } = engine.state;
+      return slingshots.reduce((best, s, i) =>
+          Math.abs(pos.x - s.anchor.x) < Math.abs(pos.x - slingshots[best].anchor.x) ? i : best, 0);
+    };
+
+    const renderFrame = () => {
+      animationFrame = requestAnimationFrame(renderFrame);
+      const results = latestResults;
+      const usePointer = inputModeRef.current === 'pointer';
+
+      // Responsive Resize & Re-centering Logic
+      const size = getCanvasSize();
+      if (canvas.width !== size.width || canvas.height !== size.height) {
+        canvas.width = size.width;
+        canvas.height = size.height;
+        
+        // Dynamic re-centering of existing elements
+        const xShift = engine.resize(canvas.width, canvas.height);
+        particles.current.forEach(p => p.x += xShift);
+        popups.current.forEach(p => p.x += xShift);
       }
 
       ctx.save();
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       
-      // Draw Video Feed
-      ctx.drawImage(results.image, 0, 0, canvas.width, canvas.height);
+      // Draw Video Feed (if the camera is running at all)
+      if (results?.image) {
+        ctx.drawImage(results.image, 0, 0, canvas.width, canvas.height);
+      }
       // Material Dark Overlay
       ctx.fillStyle = 'rgba(18, 18, 18, 0.85)';
       ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-      // --- Hand Tracking ---
-      let handPos: Point | null = null;
-      let pinchDist = 1.0;
-
-      if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-        const landmarks = results.multiHandLandmarks[0];
-        const idxTip = landmarks[8];
-        const thumbTip = landmarks[4];
-
-        handPos = {
-          x: (idxTip.x * canvas.width + thumbTip.x * canvas.width) / 2,
-          y: (idxTip.y * canvas.height + thumbTip.y * canvas.height) / 2
-        };
-
-        const dx = idxTip.x - thumbTip.x;
-        const dy = idxTip.y - thumbTip.y;
-        pinchDist = Math.sqrt(dx * dx + dy * dy);
+      // --- Hand Tracking / Pointer ---
+      // Two hands are tracked in two-player mode; the pointer is always a single hand
+      const inputs: HandInput[] = [];
+
+      if (usePointer) {
+        const { pos, down } = pointerRef.current;
+        if (pos) inputs.push({ pos, grabbing: down });
+      } else if (results?.multiHandLandmarks) {
+        results.multiHandLandmarks.forEach((landmarks: any) => {
+          const idxTip = landmarks[8];
+          const thumbTip = landmarks[4];
+
+          const dx = idxTip.x - thumbTip.x;
+          const dy = idxTip.y - thumbTip.y;
+          const pinchDist = Math.sqrt(dx * dx + dy * dy);
+          inputs.push({
+            pos: {
+              x: (idxTip.x * canvas.width + thumbTip.x * canvas.width) / 2,
+              y: (idxTip.y * canvas.height + thumbTip.y * canvas.height) / 2
+            },
+            grabbing: pinchDist < PINCH_THRESHOLD
+          });
+
+          if (window.drawConnectors && window.drawLandmarks) {
+             // Google Blue for tracking lines
+             window.drawConnectors(ctx, landmarks, window.HAND_CONNECTIONS, {color: '#669df6', lineWidth: 1});
+             window.drawLandmarks(ctx, landmarks, {color: '#aecbfa', lineWidth: 1, radius: 2});
+          }
+        });
+      }
 
-        if (window.drawConnectors && window.drawLandmarks) {
-           // Google Blue for tracking lines
-           window.drawConnectors(ctx, landmarks, window.HAND_CONNECTIONS, {color: '#669df6', lineWidth: 1});
-           window.drawLandmarks(ctx, landmarks, {color: '#aecbfa', lineWidth: 1, radius: 2});
-        }
-        
-        // Cursor
+      // Cursor
+      inputs.forEach(({ pos, grabbing }) => {
         ctx.beginPath();
-        ctx.arc(handPos.x, handPos.y, 20, 0, Math.PI * 2);
-        ctx.strokeStyle = pinchDist < PINCH_THRESHOLD ? '#66bb6a' : '#ffffff';
+        ctx.arc(pos.x, pos.y, 20, 0, Math.PI * 2);
+        ctx.strokeStyle = grabbing ? '#66bb6a' : '#ffffff';
         ctx.lineWidth = 2;
         ctx.stroke();
-      }
+      });
       
       // --- SLINGSHOT LOGIC ---
       
-      // Check if we are currently "Locked" waiting for AI
-      const isLocked = isAiThinkingRef.current;
-
-      if (!isLocked && handPos && pinchDist < PINCH_THRESHOLD && !isFlying.current) {
-        const distToBall = Math.sqrt(Math.pow(handPos.x - ballPos.current.x, 2) + Math.pow(handPos.y - ballPos.current.y, 2));
-        if (!isPinching.current && distToBall < 100) {
-           isPinching.current = true;
-        }
-        
-        if (isPinching.current) {
-            ballPos.current = { x: handPos.x, y: handPos.y };
-            const dragDx = ballPos.current.x - anchorPos.current.x;
-            const dragDy = ballPos.current.y - anchorPos.current.y;
-            const dragDist = Math.sqrt(dragDx*dragDx + dragDy*dragDy);
-            
-            if (dragDist > MAX_DRAG_DIST) {
-                const angle = Math.atan2(dragDy, dragDx);
-                ballPos.current.x = anchorPos.current.x + Math.cos(angle) * MAX_DRAG_DIST;
-                ballPos.current.y = anchorPos.current.y + Math.sin(angle) * MAX_DRAG_DIST;
-            }
+      const { state } = engine;
+      const versus = versusRef.current;
+
+      // Check if we are currently "Locked" waiting for AI (blocking hint mode only) or for the resume question
+      const isLocked = (isAiThinkingRef.current && hintModeRef.current === 'blocking')
+        || resumeOfferRef.current !== null
+        || replayOpenRef.current
+        || state.gameOver
+        || (quizRef.current !== null && isQuizFinished(quizRef.current))
+        || (versus !== null && versus.ending !== null);
+
+      if (!versus) {
+        const kind = selectedKindRef.current;
+        if (pullSlingshot(0, inputs[0], isPinching, isLocked, selectedColorRef.current, kind)) {
+            if (recordingRef.current) recordingRef.current = addRecordedShot(recordingRef.current, state, shownHintRef.current);
+            setSelectedKind(null); // A special ball is used up with one shot
+            setSpecialShots({ ...state.specialShots });
+            // A pocket ball is fired on top of the queue, so the dealt ball stays
+            if (queueRef.current && !kind) applyQueue(advanceShotQueue(queueRef.current, queueRngRef.current, getBoardColors()));
         }
-      } 
-      else if (isPinching.current && (!handPos || pinchDist >= PINCH_THRESHOLD || isLocked)) {
-        // Release or Forced Release if Locked
-        isPinching.current = false;
-        
-        if (isLocked) {
-             // If we lock while pinching, reset to anchor
-             ballPos.current = { ...anchorPos.current };
-        } else {
-            const dx = anchorPos.current.x - ballPos.current.x;
-            const dy = anchorPos.current.y - ballPos.current.y;
-            const stretchDist = Math.sqrt(dx*dx + dy*dy);
-            
-            if (stretchDist > 30) {
-                isFlying.current = true;
-                flightStartTime.current = performance.now();
-                const powerRatio = Math.min(stretchDist / MAX_DRAG_DIST, 1.0);
-                const velocityMultiplier = MIN_FORCE_MULT + (MAX_FORCE_MULT - MIN_FORCE_MULT) * (powerRatio * powerRatio);
-
-                ballVel.current = {
-                    x: dx * velocityMultiplier,
-                    y: dy * velocityMultiplier
-                };
-            } else {
-                ballPos.current = { ...anchorPos.current };
-            }
-        }
-      }
-      else if (!isFlying.current && !isPinching.current) {
-          const dx = anchorPos.current.x - ballPos.current.x;
-          const dy = anchorPos.current.y - ballPos.current.y;
-          ballPos.current.x += dx * 0.15;
-          ballPos.current.y += dy * 0.15;
+      } else {
+        // Each hand works the slingshot on its own side of the screen
+        versus.players.forEach((player, i) => {
+          const hand = inputs.find(h => getNearestSlingshot(h.pos) === i);
+          const locked = isLocked || !canVersusShoot(versus, i);
+          if (pullSlingshot(i, hand, versusPinching.current[i], locked, player.color, null)) {
+              applyVersus(spendVersusShot(versusRef.current!, i));
+          }
+        });
       }
 
-      // --- Physics ---
-      if (isFlying.current) {
-        // Infinite bounce safeguard: if flying for more than 5 seconds (5000ms), cancel shot
-        if (performance.now() - flightStartTime.current > 5000) {
-            isFlying.current = false;
-            ballPos.current = { ...anchorPos.current };
-            ballVel.current = { x: 0, y: 0 };
-        } else {
-            const currentSpeed = Math.sqrt(ballVel.current.x ** 2 + ballVel.current.y ** 2);
-            const steps = Math.ceil(currentSpeed / (BUBBLE_RADIUS * 0.8)); 
-            let collisionOccurred = false;
-
-            for (let i = 0; i < steps; i++) {
-                ballPos.current.x += ballVel.current.x / steps;
-                ballPos.current.y += ballVel.current.y / steps;
-                
-                if (ballPos.current.x < BUBBLE_RADIUS || ballPos.current.x > canvas.width - BUBBLE_RADIUS) {
-                    ballVel.current.x *= -1;
-                    ballPos.current.x = Math.max(BUBBLE_RADIUS, Math.min(canvas.width - BUBBLE_RADIUS, ballPos.current.x));
-                }
-
-                if (ballPos.current.y < BUBBLE_RADIUS) {
-                    collisionOccurred = true;
-                    break;
-                }
-
-                for (const b of bubbles.current) {
-                    if (!b.active) continue;
-                    const dist = Math.sqrt(
-                        Math.pow(ballPos.current.x - b.x, 2) + 
-                        Math.pow(ballPos.current.y - b.y, 2)
-                    );
-                    if (dist < BUBBLE_RADIUS * 1.8) { 
-                        collisionOccurred = true;
-                        break;
-                    }
-                }
-                if (collisionOccurred) break;
-            }
+      // --- Simulation ---
+      // Ceiling timer only runs while the player can actually shoot
+      const now = performance.now();
+      const frameDt = lastFrameTimeRef.current ? now - lastFrameTimeRef.current : 0;
+      lastFrameTimeRef.current = now;
+      handleEngineEvents(engine.step(frameDt, { holdCeiling: isLocked }));
+      settleVersus();
 
-            ballVel.current.y += GRAVITY; 
-            ballVel.current.x *= FRICTION;
-            ballVel.current.y *= FRICTION;
-
-            if (collisionOccurred) {
-                isFlying.current = false;
-                
-                let bestDist = Infinity;
-                let bestRow = 0;
-                let bestCol = 0;
-                let bestX = 0;
-                let bestY = 0;
-
-                for (let r = 0; r < GRID_ROWS + 5; r++) {
-                    const colsInRow = r % 2 !== 0 ? GRID_COLS - 1 : GRID_COLS;
-                    for (let c = 0; c < colsInRow; c++) {
-                        const { x, y } = getBubblePos(r, c, canvas.width);
-                        const occupied = bubbles.current.some(b => b.active && b.row === r && b.col === c);
-                        if (occupied) continue;
-
-                        const dist = Math.sqrt(
-                            Math.pow(ballPos.current.x - x, 2) + 
-                            Math.pow(ballPos.current.y - y, 2)
-                        );
-                        
-                        if (dist < bestDist) {
-                            bestDist = dist;
-                            bestRow = r;
-                            bestCol = c;
-                            bestX = x;
-                            bestY = y;
-                        }
-                    }
-                }
-
-                const newBubble: Bubble = {
-                    id: `${bestRow}-${bestCol}-${Date.now()}`,
-                    row: bestRow,
-                    col: bestCol,
-                    x: bestX,
-                    y: bestY,
-                    color: selectedColorRef.current,
-                    active: true
-                };
-                bubbles.current.push(newBubble);
-                checkMatches(newBubble);
-                updateAvailableColors();
-                
-                // Reset shot
-                ballPos.current = { ...anchorPos.current };
-                ballVel.current = { x: 0, y: 0 };
-
-                // Request AI Analysis for next frame
-                captureRequestRef.current = true;
-            }
-            
-            if (ballPos.current.y > canvas.height) {
-                isFlying.current = false;
-                ballPos.current = { ...anchorPos.current };
-                ballVel.current = { x: 0, y: 0 };
-            }
-        }
-      }
+      const { anchor, ball } = state.slingshots[0]; // The teacher only advises a single player
 
       // --- Drawing ---
+
+      // Lowered Ceiling
+      const ceilingY = getCeilingY(state.ceilingRows);
+      if (state.ceilingRows > 0) {
+          ctx.fillStyle = '#2a2a2a';
+          ctx.fillRect(0, 0, canvas.width, ceilingY);
+          ctx.fillStyle = '#616161';
+          ctx.fillRect(0, ceilingY - 4, canvas.width, 4);
+      }
+
+      // Danger Line (pulses faster as the lowest bubble approaches it)
+      const dangerY = engine.getDangerY();
+      const lowestY = state.bubbles.reduce((max, b) => b.active ? Math.max(max, b.y + BUBBLE_RADIUS) : max, 0);
+      const closeness = Math.max(0, Math.min(1, 1 - (dangerY - lowestY) / (ROW_HEIGHT * 3)));
+      ctx.save();
+      ctx.globalAlpha = 0.3 + 0.5 * closeness * (0.5 + 0.5 * Math.sin(now / (300 - 200 * closeness)));
+      ctx.setLineDash([12, 8]);
+      ctx.beginPath();
+      ctx.moveTo(0, dangerY);
+      ctx.lineTo(canvas.width, dangerY);
+      ctx.strokeStyle = '#ef5350';
+      ctx.lineWidth = 3;
+      ctx.stroke();
+      ctx.restore();
       
       // Draw Grid Bubbles
-      bubbles.current.forEach(b => {
-          if (!b.active) return;
-          drawBubble(ctx, b.x, b.y, BUBBLE_RADIUS - 1, b.color);
+      // Falling (detached) bubbles are drawn too until they reach the floor
+      state.bubbles.forEach(b => {
+          if (!b.active && !b.isFloating) return;
+          drawBubble(ctx, b.x, b.y, BUBBLE_RADIUS - 1, b.color, vocabRef.current, b.kind);
       });
 
       // Laser Sight
-      const currentAimTarget = aimTargetRef.current;
+      const currentAimPath = aimPathRef.current;
+      const currentAimTarget = currentAimPath ? currentAimPath[currentAimPath.length - 1] : null;
       const thinking = isAiThinkingRef.current;
       const currentSelected = selectedColorRef.current;
-      const shouldShowLine = currentAimTarget && !isFlying.current && 
-                             (!aiRecommendedColor || aiRecommendedColor === currentSelected);
+      const shouldShowLine = currentAimPath && !ball.flying && 
+                             (!aiRecommendedColorRef.current || aiRecommendedColorRef.current === currentSelected);
 
       if (shouldShowLine || thinking) {
           ctx.save();
@@ -752,11 +1212,11 @@ const GeminiSlingshot: React.FC = () => {
           ctx.shadowColor = highlightColor;
           
           ctx.beginPath();
-          ctx.moveTo(anchorPos.current.x, anchorPos.current.y);
-          if (currentAimTarget) {
-            ctx.lineTo(currentAimTarget.x, currentAimTarget.y);
+          ctx.moveTo(anchor.x, anchor.y);
+          if (currentAimPath) {
+            currentAimPath.forEach(p => ctx.lineTo(p.x, p.y));
           } else {
-            ctx.lineTo(anchorPos.current.x, anchorPos.current.y - 200);
+            ctx.lineTo(anchor.x, anchor.y - 200);
           }
           
           const time = performance.now();
@@ -776,61 +1236,139 @@ const GeminiSlingshot: React.FC = () => {
               ctx.fillStyle = 'rgba(255,255,255,0.1)';
               ctx.fill();
               ctx.stroke();
+
+              // Bank shots: mark where to hit the wall
+              ctx.setLineDash([]);
+              ctx.fillStyle = highlightColor;
+              currentAimPath!.slice(0, -1).forEach(p => {
+                  ctx.beginPath();
+                  ctx.arc(p.x, p.y, 10, 0, Math.PI * 2);
+                  ctx.fill();
+              });
           }
           
           ctx.restore();
       }
 
-      // Slingshot Band (Back)
-      const bandColor = isPinching.current ? '#fdd835' : 'rgba(255,255,255,0.4)';
-      if (!isFlying.current) {
-        ctx.beginPath();
-        ctx.moveTo(anchorPos.current.x - 35, anchorPos.current.y - 10);
-        ctx.lineTo(ballPos.current.x, ballPos.current.y);
-        ctx.lineWidth = 5;
-        ctx.strokeStyle = bandColor;
-        ctx.lineCap = 'round';
-        ctx.stroke();
-      }
+      // Trajectory Preview: the exact flight the current pull would produce, bounces included
+      state.slingshots.forEach((_, player) => {
+          const preview = engine.previewShot(player);
+          if (!preview) return;
+          const previewColor = quizRef.current ? MYSTERY_BALL_CONFIG.hex : COLOR_CONFIG[versus ? versus.players[player].color : currentSelected].hex;
+          const { path } = preview.flight;
+          ctx.save();
+          ctx.fillStyle = previewColor;
+          // One dot every few frames, fading out along the path
+          for (let i = PREVIEW_DOT_SPACING; i < path.length; i += PREVIEW_DOT_SPACING) {
+              ctx.globalAlpha = 0.9 - 0.6 * (i / path.length);
+              ctx.beginPath();
+              ctx.arc(path[i].x, path[i].y, 5, 0, Math.PI * 2);
+              ctx.fill();
+          }
 
-      // Draw Slingshot Ball (Projectile)
-      // If locked, we draw it slightly faded to indicate inactivity
-      ctx.save();
-      if (isLocked && !isFlying.current) {
-          ctx.globalAlpha = 0.5;
-      }
-      drawBubble(ctx, ballPos.current.x, ballPos.current.y, BUBBLE_RADIUS, selectedColorRef.current);
-      ctx.restore();
+          if (preview.hit) {
+              ctx.globalAlpha = 0.9;
+              ctx.beginPath();
+              ctx.arc(preview.hit.x, preview.hit.y, BUBBLE_RADIUS + 3, 0, Math.PI * 2);
+              ctx.strokeStyle = '#ffffff';
+              ctx.lineWidth = 3;
+              ctx.stroke();
+          }
 
-      // Slingshot Band (Front)
-      if (!isFlying.current) {
-        ctx.beginPath();
-        ctx.moveTo(ballPos.current.x, ballPos.current.y);
-        ctx.lineTo(anchorPos.current.x + 35, anchorPos.current.y - 10);
-        ctx.lineWidth = 5;
-        ctx.strokeStyle = bandColor;
-        ctx.lineCap = 'round';
-        ctx.stroke();
-      }
+          // Ghost of the cell the ball would snap into
+          if (preview.cell) {
+              ctx.globalAlpha = 0.45;
+              ctx.beginPath();
+              ctx.arc(preview.cell.x, preview.cell.y, BUBBLE_RADIUS - 1, 0, Math.PI * 2);
+              ctx.fill();
+              ctx.globalAlpha = 0.9;
+              ctx.setLineDash([6, 6]);
+              ctx.strokeStyle = previewColor;
+              ctx.lineWidth = 3;
+              ctx.stroke();
+          }
+          ctx.restore();
+      });
 
-      // Slingshot Handle
-      ctx.beginPath();
-      ctx.moveTo(anchorPos.current.x, canvas.height); 
-      ctx.lineTo(anchorPos.current.x, anchorPos.current.y + 40); 
-      ctx.lineTo(anchorPos.current.x - 40, anchorPos.current.y); 
-      ctx.moveTo(anchorPos.current.x, anchorPos.current.y + 40);
-      ctx.lineTo(anchorPos.current.x + 40, anchorPos.current.y); 
-      ctx.lineWidth = 10;
-      ctx.lineCap = 'round';
-      ctx.strokeStyle = '#616161';
-      ctx.stroke();
+      state.slingshots.forEach(({ anchor, ball }, player) => {
+          const pinching = versus ? versusPinching.current[player].current : isPinching.current;
+          const locked = isLocked || (versus !== null && !canVersusShoot(versus, player));
+
+          // Slingshot Band (Back)
+          const bandColor = pinching ? '#fdd835' : 'rgba(255,255,255,0.4)';
+          if (!ball.flying) {
+            ctx.beginPath();
+            ctx.moveTo(anchor.x - 35, anchor.y - 10);
+            ctx.lineTo(ball.pos.x, ball.pos.y);
+            ctx.lineWidth = 5;
+            ctx.strokeStyle = bandColor;
+            ctx.lineCap = 'round';
+            ctx.stroke();
+          }
+
+          // Draw Slingshot Ball (Projectile)
+          // If locked, we draw it slightly faded to indicate inactivity
+          ctx.save();
+          if (locked && !ball.flying) {
+              ctx.globalAlpha = 0.5;
+          }
+          const loadedColor = versus ? versus.players[player].color : selectedColorRef.current;
+          drawBubble(
+              ctx, ball.pos.x, ball.pos.y, BUBBLE_RADIUS,
+              quizRef.current ? null : ball.flying ? ball.color : loadedColor,
+              vocabRef.current,
+              ball.flying ? ball.kind : versus ? 'normal' : selectedKindRef.current ?? 'normal'
+          );
+          ctx.restore();
 
-      // Particles
+          // Slingshot Band (Front)
+          if (!ball.flying) {
+            ctx.beginPath();
+            ctx.moveTo(ball.pos.x, ball.pos.y);
+            ctx.lineTo(anchor.x + 35, anchor.y - 10);
+            ctx.lineWidth = 5;
+            ctx.strokeStyle = bandColor;
+            ctx.lineCap = 'round';
+            ctx.stroke();
+          }
+
+          // Slingshot Handle (tinted with the player's colour in two-player mode)
+          ctx.beginPath();
+          ctx.moveTo(anchor.x, canvas.height); 
+          ctx.lineTo(anchor.x, anchor.y + 40); 
+          ctx.lineTo(anchor.x - 40, anchor.y); 
+          ctx.moveTo(anchor.x, anchor.y + 40);
+          ctx.lineTo(anchor.x + 40, anchor.y); 
+          ctx.lineWidth = 10;
+          ctx.lineCap = 'round';
+          ctx.strokeStyle = versus ? PLAYER_HEX[player] : '#616161';
+          ctx.stroke();
+
+          // "1P" / "2P" beside the handle; text is flipped back like the bubble labels
+          if (versus) {
+              ctx.save();
+              ctx.globalAlpha = locked ? 0.4 : 1;
+              ctx.translate(anchor.x + 70, anchor.y + 90);
+              ctx.scale(-1, 1);
+              ctx.font = '900 28px Roboto, sans-serif';
+              ctx.textAlign = 'center';
+              ctx.textBaseline = 'middle';
+              ctx.lineWidth = 6;
+              ctx.strokeStyle = '#121212';
+              ctx.strokeText(`${player + 1}P`, 0, 0);
+              ctx.fillStyle = PLAYER_HEX[player];
+              ctx.fillText(`${player + 1}P`, 0, 0);
+              ctx.restore();
+          }
+      });
+
+      // Particles (animated at the simulation tick rate regardless of display refresh)
+      const frameScale = frameDt / TICK_MS;
       for (let i = particles.current.length - 1; i >= 0; i--) {
           const p = particles.current[i];
-          p.x += p.vx;
-          p.y += p.vy;
-          p.life -= 0.05;
+          p.x += p.vx * frameScale;
+          p.y += p.vy * frameScale;
+          p.life -= 0.05 * frameScale;
           if (p.life <= 0) particles.current.splice(i, 1);
           else {
               ctx.globalAlpha = p.life;
@@ -841,11 +1379,39 @@ const GeminiSlingshot: React.FC = () => {
               ctx.globalAlpha = 1.0;
           }
       }
+
+      // Score popups drift up and fade; text is flipped back like the bubble labels
+      for (let i = popups.current.length - 1; i >= 0; i--) {
+          const p = popups.current[i];
+          p.y -= 1.5 * frameScale;
+          p.life -= 0.02 * frameScale;
+          if (p.life <= 0) {
+              popups.current.splice(i, 1);
+              continue;
+          }
+          ctx.save();
+          ctx.globalAlpha = Math.min(1, p.life * 2);
+          ctx.translate(p.x, p.y);
+          ctx.scale(-1, 1);
+          ctx.font = `900 ${p.size}px Roboto, sans-serif`;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.lineWidth = 5;
+          ctx.strokeStyle = 'rgba(0,0,0,0.6)';
+          ctx.strokeText(p.text, 0, 0);
+          ctx.fillStyle = p.color;
+          ctx.fillText(p.text, 0, 0);
+          ctx.restore();
+      }
       
       ctx.restore();
 
       // --- CAPTURE SCREENSHOT IF REQUESTED ---
       // We do this at the end of the render loop to ensure everything is drawn
+      // No hints during the listening quiz (they would name the answer) or for two players
+      if (captureRequestRef.current && (state.gameOver || quizRef.current || versus)) {
+        captureRequestRef.current = false;
+      }
       if (captureRequestRef.current) {
         captureRequestRef.current = false;
         
@@ -881,6 +1447,8 @@ const GeminiSlingshot: React.FC = () => {
       }
     };
 
+    animationFrame = requestAnimationFrame(renderFrame);
+
     // Try starting immediately
     if (!tryInitialize()) {
         // If failed (scripts not loaded), poll
@@ -892,11 +1460,15 @@ const GeminiSlingshot: React.FC = () => {
     }
 
     return () => {
+        cancelAnimationFrame(animationFrame);
+        clearTimeout(cameraTimeout);
         if (initInterval) clearInterval(initInterval);
         if (camera) camera.stop();
         if (hands) hands.close();
+        handsRef.current = null;
+        hintAbortRef.current?.abort();
     };
-  }, [initGrid]);
+  }, [onNewBoard]);
 
   const recColorConfig = aiRecommendedColor ? COLOR_CONFIG[aiRecommendedColor] : null;
   const borderColor = recColorConfig ? recColorConfig.hex : '#444746';
@@ -904,23 +1476,18 @@ const GeminiSlingshot: React.FC = () => {
   return (
     <div className="flex w-full h-screen bg-[#121212] overflow-hidden font-roboto text-[#e3e3e3]">
       
-      {/* MOBILE/TABLET BLOCKER OVERLAY */}
-      <div className="fixed inset-0 z-[100] bg-[#121212] flex flex-col items-center justify-center p-8 text-center md:hidden">
-         <Monitor className="w-16 h-16 text-[#ef5350] mb-6 animate-pulse" />
-         <h2 className="text-2xl font-bold text-[#e3e3e3] mb-4">PC에서 이용해주세요</h2>
-         <p className="text-[#c4c7c5] max-w-md text-lg leading-relaxed">
-           이 게임은 컴퓨터 화면에서 해야 잘 보여요.
-         </p>
-         <div className="mt-8 flex items-center gap-2 text-sm text-[#757575] uppercase tracking-wider font-bold">
-           <div className="w-2 h-2 bg-[#42a5f5] rounded-full"></div>
-           창을 최대화 해주세요
-         </div>
-      </div>
-
       {/* FULL GAME AREA */}
       <div ref={gameContainerRef} className="absolute inset-0 overflow-hidden">
         <video ref={videoRef} className="absolute hidden" playsInline />
-        <canvas ref={canvasRef} className="absolute inset-0" />
+        <canvas
+            ref={canvasRef}
+            className="absolute inset-0 w-full h-full"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onPointerLeave={() => { if (!pointerRef.current.down) pointerRef.current.pos = null; }}
+        />
 
         {/* Loading Overlay */}
         {loading && (
@@ -929,6 +1496,13 @@ const GeminiSlingshot: React.FC = () => {
                 <Loader2 className="w-12 h-12 text-[#42a5f5] animate-spin mb-4" />
                 <p className="text-[#e3e3e3] text-lg font-medium">게임 준비 중...</p>
                 <p className="text-[#757575] text-xs mt-2">(카메라 권한을 허용해주세요)</p>
+                <button
+                    onClick={() => setPreferredInput('pointer')}
+                    className="mt-6 flex items-center gap-2 bg-white/5 hover:bg-white/10 text-[#e3e3e3] text-sm font-bold px-5 py-3 rounded-full"
+                >
+                    <MousePointerClick className="w-4 h-4" />
+                    카메라 없이 하기
+                </button>
             </div>
             </div>
         )}
@@ -938,8 +1512,16 @@ const GeminiSlingshot: React.FC = () => {
             <div className="absolute inset-0 flex items-center justify-center z-[60] pointer-events-none">
                 <div className="relative animate-bounce">
                     <div className="absolute inset-0 bg-black/50 blur-xl rounded-full transform scale-150"></div>
-                    <div className="relative text-7xl md:text-9xl font-black text-transparent bg-clip-text bg-gradient-to-br from-white via-yellow-200 to-white drop-shadow-[0_0_25px_rgba(255,255,255,0.8)] px-12 py-8 rounded-3xl border-4 border-white/20 backdrop-blur-md">
-                        {celebrationWord}
+                    <div className="relative flex flex-col items-center px-12 py-8 rounded-3xl border-4 border-white/20 backdrop-blur-md">
+                        {celebrationWord.image ? (
+                            <img src={celebrationWord.image} alt={celebrationWord.translation} className="w-32 h-32 object-contain mb-2" />
+                        ) : celebrationWord.emoji && (
+                            <span className="text-7xl mb-2">{celebrationWord.emoji}</span>
+                        )}
+                        <span className="text-7xl md:text-9xl font-black text-transparent bg-clip-text bg-gradient-to-br from-white via-yellow-200 to-white drop-shadow-[0_0_25px_rgba(255,255,255,0.8)]">
+                            {celebrationWord.word}
+                        </span>
+                        <span className="text-xl font-bold text-white/70 mt-2">{celebrationWord.translation}</span>
                     </div>
                     {/* Decorative Sparkles */}
                     <Sparkles className="absolute -top-12 -left-12 w-24 h-24 text-yellow-300 animate-pulse" />
@@ -948,8 +1530,223 @@ const GeminiSlingshot: React.FC = () => {
             </div>
         )}
 
-        {/* Analyzing Overlay - positioned at Slingshot Anchor */}
-        {isAiThinking && (
+        {/* AI DEBUG INSPECTOR */}
+        {showDebug && (
+            <DebugPanel history={debugHistory} onExport={exportDebugSession} onClose={() => setShowDebug(false)} />
+        )}
+
+        {/* VOCABULARY PACK PICKER */}
+        {showPackPicker && (
+            <VocabPackPicker
+                packs={vocabPacks}
+                activePackId={vocabPack.id}
+                onSelect={pack => { setVocabPack(pack); setShowPackPicker(false); }}
+                onImport={pack => { importVocabPack(pack); setShowPackPicker(false); }}
+                onClose={() => setShowPackPicker(false)}
+            />
+        )}
+
+        {/* LEVEL SELECT */}
+        {showLevelSelect && (
+            <LevelSelect
+                levels={BUILT_IN_LEVELS}
+                customLevels={customLevels}
+                progress={levelProgress}
+                vocab={vocabPack}
+                activeLevelId={level?.id ?? null}
+                onSelect={selectLevel}
+                onEdit={openLevelEditor}
+                onDelete={removeLevel}
+                onClose={() => setShowLevelSelect(false)}
+            />
+        )}
+
+        {/* LEVEL EDITOR */}
+        {showLevelEditor && (
+            <LevelEditor
+                initial={editorLevel}
+                vocab={vocabPack}
+                onSave={saveLevel}
+                onPlayTest={startPlayTest}
+                onClose={() => setShowLevelEditor(false)}
+            />
+        )}
+
+        {/* REPLAY VIEWER */}
+        {showReplay && (
+            <ReplayViewer initial={recordingRef.current} onClose={() => openReplay(false)} />
+        )}
+
+        {/* RESUME SAVED GAME */}
+        {resumeOffer && !gameOver && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/70 backdrop-blur-sm z-[70]">
+                <div className="bg-[#1e1e1e] p-10 rounded-[32px] border-2 border-[#42a5f5] shadow-2xl flex flex-col items-center gap-4">
+                    <h2 className="text-3xl font-black text-white">이어서 할까요?</h2>
+                    <p className="text-[#c4c7c5] text-lg">
+                        {new Date(resumeOffer.savedAt).toLocaleString('ko-KR')} · 단어: {resumeOffer.vocabPack.name}
+                    </p>
+                    <p className="text-5xl font-black text-white">{resumeOffer.board.score.toLocaleString()}점</p>
+                    <div className="flex gap-3 mt-2">
+                        <button
+                            onClick={() => resumeSession(resumeOffer)}
+                            className="flex items-center gap-2 bg-[#42a5f5] hover:bg-[#64b5f6] text-white font-bold px-8 py-4 rounded-full transition-colors"
+                        >
+                            <Play className="w-5 h-5 fill-current" />
+                            이어서 하기
+                        </button>
+                        <button
+                            onClick={declineResume}
+                            className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-bold px-8 py-4 rounded-full transition-colors"
+                        >
+                            <RotateCcw className="w-5 h-5" />
+                            새로 시작
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* LISTENING QUIZ RESULTS (also shown when the board reaches the danger line mid-round) */}
+        {quiz && isQuizFinished(quiz) && (
+            <QuizResults quiz={quiz} vocab={vocabPack} onPlayAgain={startQuiz} onExit={exitQuiz} />
+        )}
+
+        {/* TWO-PLAYER MODE: how to play */}
+        {showVersusMenu && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/70 backdrop-blur-sm z-[70]">
+                <div className="bg-[#1e1e1e] p-10 rounded-[32px] border-2 border-[#444746] shadow-2xl flex flex-col items-center gap-4">
+                    <Users className="w-14 h-14 text-[#42a5f5]" />
+                    <h2 className="text-3xl font-black text-white">둘이서 하기</h2>
+                    <p className="text-[#c4c7c5] text-lg">한 사람에 구슬 {VERSUS_SHOTS_PER_PLAYER}개씩, 왼쪽이 1P 오른쪽이 2P예요.</p>
+                    <div className="flex gap-3 mt-2">
+                        <button
+                            onClick={() => startVersus('turns')}
+                            className="flex items-center gap-2 bg-[#42a5f5] hover:bg-[#64b5f6] text-white font-bold px-8 py-4 rounded-full transition-colors"
+                        >
+                            <ArrowLeftRight className="w-5 h-5" />
+                            차례대로
+                        </button>
+                        <button
+                            onClick={() => startVersus('together')}
+                            className="flex items-center gap-2 bg-[#42a5f5] hover:bg-[#64b5f6] text-white font-bold px-8 py-4 rounded-full transition-colors"
+                        >
+                            <Users className="w-5 h-5" />
+                            동시에
+                        </button>
+                        <button
+                            onClick={() => setShowVersusMenu(false)}
+                            className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-bold px-8 py-4 rounded-full transition-colors"
+                        >
+                            취소
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* TWO-PLAYER RESULTS (also shown when the board reaches the danger line mid-match) */}
+        {versus?.ending && (
+            <VersusResults versus={versus} vocab={vocabPack} onPlayAgain={restartGame} onExit={exitVersus} />
+        )}
+
+        {/* LEVEL COMPLETE */}
+        {levelResult && level && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/70 backdrop-blur-sm z-[70]">
+                <div className="bg-[#1e1e1e] p-10 rounded-[32px] border-2 border-[#fdd835] shadow-2xl flex flex-col items-center gap-4">
+                    <StarRow count={levelResult.stars} size="w-14 h-14" />
+                    <h2 className="text-4xl font-black text-white">{level.name} 성공!</h2>
+                    <p className="text-5xl font-black text-white">{levelResult.score.toLocaleString()}점</p>
+                    <div className="flex gap-3 mt-2">
+                        {playTest && (
+                            <button
+                                onClick={() => openLevelEditor(playTest)}
+                                className="flex items-center gap-2 bg-[#42a5f5] hover:bg-[#64b5f6] text-white font-bold px-8 py-4 rounded-full transition-colors"
+                            >
+                                <Pencil className="w-5 h-5" />
+                                편집으로 돌아가기
+                            </button>
+                        )}
+                        {nextLevel && (
+                            <button
+                                onClick={() => selectLevel(nextLevel)}
+                                className="flex items-center gap-2 bg-[#42a5f5] hover:bg-[#64b5f6] text-white font-bold px-8 py-4 rounded-full transition-colors"
+                            >
+                                다음 레벨
+                                <ChevronRight className="w-5 h-5" />
+                            </button>
+                        )}
+                        <button
+                            onClick={restartGame}
+                            className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-bold px-8 py-4 rounded-full transition-colors"
+                        >
+                            <RotateCcw className="w-5 h-5" />
+                            다시 하기
+                        </button>
+                        <button
+                            onClick={() => setShowLevelSelect(true)}
+                            className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-bold px-8 py-4 rounded-full transition-colors"
+                        >
+                            <MapIcon className="w-5 h-5" />
+                            레벨 고르기
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* GAME OVER OVERLAY */}
+        {gameOver && !quiz && !versus && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/70 backdrop-blur-sm z-[70]">
+                <div className="bg-[#1e1e1e] p-10 rounded-[32px] border-2 border-[#ef5350] shadow-2xl flex flex-col items-center gap-4">
+                    <AlertTriangle className="w-14 h-14 text-[#ef5350]" />
+                    <h2 className="text-4xl font-black text-white">게임 끝!</h2>
+                    <p className="text-[#c4c7c5] text-lg">
+                        {engineRef.current?.state.shotsLeft === 0 ? "구슬을 다 썼어요." : "구슬이 빨간 선에 닿았어요."}
+                    </p>
+                    <p className="text-5xl font-black text-white">{score.toLocaleString()}점</p>
+                    {/* The high-score table is for free play; levels keep their own best scores */}
+                    {!level && !scoreSubmitted && qualifiesForHighScore(score) && (
+                        <form
+                            onSubmit={e => { e.preventDefault(); submitHighScore(); }}
+                            className="flex items-center gap-2"
+                        >
+                            <input
+                                value={playerName}
+                                onChange={e => setPlayerName(e.target.value)}
+                                maxLength={12}
+                                placeholder="이름"
+                                className="bg-[#252525] border-2 border-[#444746] rounded-full px-5 py-3 text-white font-bold w-44 outline-none focus:border-[#fdd835]"
+                            />
+                            <button type="submit" className="bg-[#fdd835] hover:bg-[#ffee58] text-black font-bold px-5 py-3 rounded-full">
+                                기록 남기기
+                            </button>
+                        </form>
+                    )}
+                    {!level && <HighScoreTable entries={highScores} highlight={newHighScore} />}
+                    <div className="flex gap-3 mt-2">
+                        <button
+                            onClick={restartGame}
+                            className="flex items-center gap-2 bg-[#42a5f5] hover:bg-[#64b5f6] text-white font-bold px-8 py-4 rounded-full transition-colors"
+                        >
+                            <RotateCcw className="w-5 h-5" />
+                            다시 하기
+                        </button>
+                        {level && (
+                            <button
+                                onClick={() => setShowLevelSelect(true)}
+                                className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-bold px-8 py-4 rounded-full transition-colors"
+                            >
+                                <MapIcon className="w-5 h-5" />
+                                레벨 고르기
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* Analyzing Overlay - positioned at Slingshot Anchor (blocking mode gates the slingshot) */}
+        {isAiThinking && hintMode === 'blocking' && (
           <div 
             className="absolute left-1/2 -translate-x-1/2 z-50 flex flex-col items-center justify-center pointer-events-none"
             style={{ bottom: '220px', transform: 'translate(-50%, 50%)' }}
@@ -959,8 +1756,17 @@ const GeminiSlingshot: React.FC = () => {
           </div>
         )}
 
+        {/* Background mode: a small badge instead, the slingshot stays usable */}
+        {isAiThinking && hintMode === 'background' && (
+          <div className="absolute bottom-8 right-[400px] z-40 flex items-center gap-2 bg-[#1e1e1e]/90 px-4 py-2 rounded-full border border-[#a8c7fa]/40 pointer-events-none">
+             <Loader2 className="w-4 h-4 text-[#a8c7fa] animate-spin" />
+             <p className="text-[#a8c7fa] font-bold text-xs">생각 중...</p>
+          </div>
+        )}
+
         {/* HUD: Score Card */}
         <div className="absolute top-8 left-8 z-40">
+            {versus ? <VersusHud versus={versus} /> : (
             <div className="bg-[#1e1e1e] p-6 rounded-[32px] border-2 border-[#444746] shadow-2xl flex items-center gap-4 min-w-[200px]">
                 <div className="bg-[#42a5f5]/20 p-4 rounded-full">
                     <Trophy className="w-8 h-8 text-[#42a5f5]" />
@@ -968,123 +1774,274 @@ const GeminiSlingshot: React.FC = () => {
                 <div>
                     <p className="text-sm text-[#c4c7c5] uppercase tracking-wider font-bold">점수</p>
                     <p className="text-4xl font-black text-white">{score.toLocaleString()}</p>
+                    {shotsUntilDrop !== null && (
+                        <p className={`text-xs font-bold mt-1 ${shotsUntilDrop <= 2 ? 'text-[#ef5350]' : 'text-[#757575]'}`}>
+                            천장이 내려오기까지 {shotsUntilDrop}번
+                        </p>
+                    )}
                 </div>
             </div>
+            )}
+            {level && <LevelHud level={level} goals={goalProgress} shotsLeft={shotsLeft} vocab={vocabPack} />}
+            {!quiz && !versus && (combo > 0 || lastShotScore) && <ShotScoreHud combo={combo} lastShot={lastShotScore} />}
+            <button
+                onClick={() => setShowLevelSelect(true)}
+                disabled={!!resumeOffer || !!versus}
+                className="mt-3 flex items-center gap-2 bg-[#1e1e1e] hover:bg-[#252525] disabled:opacity-60 px-5 py-3 rounded-full border-2 border-[#444746] text-sm font-bold text-[#e3e3e3]"
+            >
+                <MapIcon className="w-4 h-4 text-[#42a5f5]" />
+                레벨: {level ? level.name : "자유 놀이"}
+            </button>
+            {playTest && (
+                <button
+                    onClick={() => openLevelEditor(playTest)}
+                    className="mt-3 flex items-center gap-2 bg-[#1e1e1e] hover:bg-[#252525] px-5 py-3 rounded-full border-2 border-[#42a5f5] text-sm font-bold text-[#e3e3e3]"
+                >
+                    <Pencil className="w-4 h-4 text-[#42a5f5]" />
+                    편집으로 돌아가기
+                </button>
+            )}
+            <button
+                onClick={() => setShowPackPicker(true)}
+                className="mt-3 flex items-center gap-2 bg-[#1e1e1e] hover:bg-[#252525] px-5 py-3 rounded-full border-2 border-[#444746] text-sm font-bold text-[#e3e3e3]"
+            >
+                <BookOpen className="w-4 h-4 text-[#42a5f5]" />
+                단어: {vocabPack.name}
+            </button>
+            <button
+                onClick={() => setPreferredInput(inputMode === 'camera' ? 'pointer' : 'camera')}
+                disabled={cameraStatus === 'failed'}
+                className="mt-3 flex items-center gap-2 bg-[#1e1e1e] hover:bg-[#252525] disabled:opacity-60 px-5 py-3 rounded-full border-2 border-[#444746] text-sm font-bold text-[#e3e3e3]"
+                title={cameraStatus === 'failed' ? "카메라를 사용할 수 없어요" : "조작 방법 바꾸기"}
+            >
+                {inputMode === 'camera'
+                    ? <><Camera className="w-4 h-4 text-[#42a5f5]" /> 손으로 조작</>
+                    : <><MousePointerClick className="w-4 h-4 text-[#42a5f5]" /> 마우스·터치로 조작</>}
+            </button>
+            <button
+                onClick={() => setHintMode(hintMode === 'background' ? 'blocking' : 'background')}
+                className="mt-3 flex items-center gap-2 bg-[#1e1e1e] hover:bg-[#252525] px-5 py-3 rounded-full border-2 border-[#444746] text-sm font-bold text-[#e3e3e3]"
+                title="힌트 방식 바꾸기"
+            >
+                {hintMode === 'background'
+                    ? <><Zap className="w-4 h-4 text-[#42a5f5]" /> 힌트 기다리지 않기</>
+                    : <><Hourglass className="w-4 h-4 text-[#42a5f5]" /> 힌트 기다렸다 쏘기</>}
+            </button>
+            <button
+                onClick={() => changeShotMode(shotMode === 'free' ? 'queue' : 'free')}
+                disabled={!!quiz || !!versus}
+                className="mt-3 flex items-center gap-2 bg-[#1e1e1e] hover:bg-[#252525] disabled:opacity-60 px-5 py-3 rounded-full border-2 border-[#444746] text-sm font-bold text-[#e3e3e3]"
+                title="구슬 고르는 방식 바꾸기"
+            >
+                {shotMode === 'free'
+                    ? <><Grid2x2 className="w-4 h-4 text-[#42a5f5]" /> 구슬 골라서 쏘기</>
+                    : <><ListOrdered className="w-4 h-4 text-[#42a5f5]" /> 구슬 순서대로 쏘기</>}
+            </button>
+            <button
+                onClick={quiz ? exitQuiz : startQuiz}
+                disabled={!!resumeOffer || !!versus}
+                className="mt-3 flex items-center gap-2 bg-[#1e1e1e] hover:bg-[#252525] disabled:opacity-60 px-5 py-3 rounded-full border-2 border-[#444746] text-sm font-bold text-[#e3e3e3]"
+                title="게임 방식 바꾸기"
+            >
+                {quiz
+                    ? <><Palette className="w-4 h-4 text-[#42a5f5]" /> 색깔 맞추기로</>
+                    : <><Headphones className="w-4 h-4 text-[#42a5f5]" /> 듣고 맞추기</>}
+            </button>
+            <button
+                onClick={versus ? exitVersus : () => setShowVersusMenu(true)}
+                disabled={!!resumeOffer}
+                className="mt-3 flex items-center gap-2 bg-[#1e1e1e] hover:bg-[#252525] disabled:opacity-60 px-5 py-3 rounded-full border-2 border-[#444746] text-sm font-bold text-[#e3e3e3]"
+                title="혼자 하기와 둘이서 하기 바꾸기"
+            >
+                {versus
+                    ? <><User className="w-4 h-4 text-[#42a5f5]" /> 혼자 하기로</>
+                    : <><Users className="w-4 h-4 text-[#42a5f5]" /> 둘이서 하기</>}
+            </button>
+            <button
+                onClick={() => openReplay(true)}
+                disabled={!!versus}
+                className="mt-3 flex items-center gap-2 bg-[#1e1e1e] hover:bg-[#252525] disabled:opacity-60 px-5 py-3 rounded-full border-2 border-[#444746] text-sm font-bold text-[#e3e3e3]"
+                title="이번 게임을 처음부터 다시 보기"
+            >
+                <Film className="w-4 h-4 text-[#42a5f5]" /> 다시 보기
+            </button>
+            {onOpenDashboard && (
+                <button
+                    onClick={onOpenDashboard}
+                    className="mt-3 flex items-center gap-2 bg-[#1e1e1e] hover:bg-[#252525] px-5 py-3 rounded-full border-2 border-[#444746] text-sm font-bold text-[#e3e3e3]"
+                    title="학습 기록 보기"
+                >
+                    <BarChart3 className="w-4 h-4 text-[#42a5f5]" /> {profile.name} · 학습 기록
+                </button>
+            )}
         </div>
 
-        {/* HUD: Color Picker - CENTER BOTTOM */}
-        <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-40 w-full max-w-2xl px-4 flex justify-center pointer-events-auto">
-            <div className="bg-[#1e1e1e]/90 backdrop-blur px-8 py-5 rounded-[40px] border-2 border-[#444746] shadow-2xl flex items-center gap-6 overflow-x-auto">
-                <p className="text-sm text-[#c4c7c5] uppercase font-bold tracking-wider mr-2 hidden md:block whitespace-nowrap">단어 선택</p>
-                {availableColors.length === 0 ? (
-                    <p className="text-sm text-gray-500">공 없음</p>
-                ) : (
-                    COLOR_KEYS.filter(c => availableColors.includes(c)).map(color => {
-                        const isSelected = selectedColor === color;
-                        const isRecommended = aiRecommendedColor === color;
-                        const config = COLOR_CONFIG[color];
+        {/* HUD: Color Picker - CENTER BOTTOM (one per player in two-player mode) */}
+        {versus && (
+            <VersusColorBar
+                versus={versus}
+                colors={availableColors}
+                vocab={vocabPack}
+                onPick={(player, color) => applyVersus(setVersusColor(versusRef.current!, player, color))}
+            />
+        )}
+        {!quiz && !versus && (
+            <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-40 w-full max-w-2xl px-4 flex justify-center pointer-events-auto">
+                <div className="bg-[#1e1e1e]/90 backdrop-blur px-8 py-5 rounded-[40px] border-2 border-[#444746] shadow-2xl flex items-center gap-6 overflow-x-auto">
+                    <p className="text-sm text-[#c4c7c5] uppercase font-bold tracking-wider mr-2 hidden md:block whitespace-nowrap">
+                        {queue ? "순서대로" : "단어 선택"}
+                    </p>
+                    {queue ? (
+                        <ShotQueueBar queue={queue} vocab={vocabPack} onSwap={swapQueue} />
+                    ) : availableColors.length === 0 ? (
+                        <p className="text-sm text-gray-500">공 없음</p>
+                    ) : (
+                        COLOR_KEYS.filter(c => availableColors.includes(c)).map(color => {
+                            const isSelected = selectedColor === color;
+                            const isRecommended = aiRecommendedColor === color;
+                            const config = COLOR_CONFIG[color];
                         
+                            return (
+                                <button
+                                    key={color}
+                                    onClick={() => setSelectedColor(color)}
+                                    className={`relative w-16 h-16 rounded-full transition-all duration-300 transform flex items-center justify-center shrink-0
+                                        ${isSelected ? 'scale-110 ring-4 ring-white/50 z-10' : 'opacity-80 hover:opacity-100 hover:scale-105'}
+                                    `}
+                                    style={{ 
+                                        background: `radial-gradient(circle at 35% 35%, ${config.hex}, ${adjustColor(config.hex, -60)})`,
+                                        boxShadow: isSelected 
+                                            ? `0 0 25px ${config.hex}, inset 0 -4px 4px rgba(0,0,0,0.3)`
+                                            : '0 4px 6px rgba(0,0,0,0.3), inset 0 -4px 4px rgba(0,0,0,0.3)'
+                                    }}
+                                >
+                                    {/* Glossy highlight for button */}
+                                    <div className="absolute top-2 left-3 w-5 h-3 bg-white/40 rounded-full transform -rotate-45 filter blur-[1px]" />
+                                
+                                    <span className={`z-10 text-xs font-bold`} style={{ color: config.textColor }}>{vocabPack.words[color].word}</span>
+
+                                    {isRecommended && !isSelected && (
+                                        <span className="absolute -top-1 -right-1 w-6 h-6 bg-white text-black text-xs font-bold flex items-center justify-center rounded-full animate-bounce shadow-md">!</span>
+                                    )}
+                                    {isSelected && (
+                                        <div className="absolute inset-0 rounded-full border-2 border-white/30" />
+                                    )}
+                                </button>
+                            )
+                        })
+                    )}
+                    {/* Special balls collected from the board; the chosen word still rides on a bomb */}
+                    {(['bomb', 'rainbow'] as SpecialShotKind[]).filter(kind => specialShots[kind] > 0).map(kind => {
+                        const isSelected = selectedKind === kind;
                         return (
                             <button
-                                key={color}
-                                onClick={() => setSelectedColor(color)}
-                                className={`relative w-16 h-16 rounded-full transition-all duration-300 transform flex items-center justify-center shrink-0
-                                    ${isSelected ? 'scale-110 ring-4 ring-white/50 z-10' : 'opacity-80 hover:opacity-100 hover:scale-105'}
+                                key={kind}
+                                onClick={() => setSelectedKind(isSelected ? null : kind)}
+                                className={`relative w-16 h-16 rounded-full transition-all duration-300 transform flex flex-col items-center justify-center shrink-0 border-2
+                                    ${isSelected ? 'scale-110 ring-4 ring-white/50 z-10 border-white' : 'opacity-80 hover:opacity-100 hover:scale-105 border-[#444746]'}
                                 `}
-                                style={{ 
-                                    background: `radial-gradient(circle at 35% 35%, ${config.hex}, ${adjustColor(config.hex, -60)})`,
-                                    boxShadow: isSelected 
-                                        ? `0 0 25px ${config.hex}, inset 0 -4px 4px rgba(0,0,0,0.3)`
-                                        : '0 4px 6px rgba(0,0,0,0.3), inset 0 -4px 4px rgba(0,0,0,0.3)'
-                                }}
+                                style={{ background: kind === 'bomb' ? '#212121' : 'conic-gradient(#ef5350, #ffa726, #ffee58, #66bb6a, #42a5f5, #ab47bc, #ef5350)' }}
+                                title={kind === 'bomb' ? "폭탄: 닿은 곳 주변을 모두 터뜨려요" : "무지개: 어떤 단어와도 짝이 돼요"}
                             >
-                                {/* Glossy highlight for button */}
-                                <div className="absolute top-2 left-3 w-5 h-3 bg-white/40 rounded-full transform -rotate-45 filter blur-[1px]" />
-                                
-                                <span className={`z-10 text-xs font-bold`} style={{ color: config.textColor }}>{config.label}</span>
-
-                                {isRecommended && !isSelected && (
-                                    <span className="absolute -top-1 -right-1 w-6 h-6 bg-white text-black text-xs font-bold flex items-center justify-center rounded-full animate-bounce shadow-md">!</span>
-                                )}
-                                {isSelected && (
-                                    <div className="absolute inset-0 rounded-full border-2 border-white/30" />
-                                )}
+                                {kind === 'bomb'
+                                    ? <Bomb className="w-6 h-6 text-[#ffca28]" />
+                                    : <Rainbow className="w-6 h-6 text-white drop-shadow" />}
+                                <span className="absolute -top-1 -right-1 w-6 h-6 bg-white text-black text-xs font-bold flex items-center justify-center rounded-full shadow-md">
+                                    {specialShots[kind]}
+                                </span>
                             </button>
-                        )
-                    })
-                )}
+                        );
+                    })}
+                </div>
             </div>
-        </div>
+        )}
 
-        {/* AI TEACHER PANEL - BOTTOM RIGHT FLOATING */}
-        <div 
-            className="absolute bottom-8 right-8 z-40 w-[360px] bg-[#1e1e1e]/95 backdrop-blur-md rounded-[2rem] border-2 shadow-2xl overflow-hidden transition-colors duration-500"
-            style={{ borderColor: borderColor }}
-        >
-             <div className="p-5 flex flex-col gap-3">
-                 <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                        <div className="p-2 bg-white/10 rounded-xl">
-                            <BrainCircuit className="w-5 h-5" style={{ color: borderColor }} />
+        {/* AI TEACHER PANEL - BOTTOM RIGHT FLOATING (the quiz panel takes its place in listening mode) */}
+        {quiz ? (
+            <QuizPanel quiz={quiz} vocab={vocabPack} feedback={quizFeedback} onReplay={() => announceQuizTarget(quiz)} />
+        ) : !versus && (
+            <div 
+                className="absolute bottom-8 right-8 z-40 w-[360px] bg-[#1e1e1e]/95 backdrop-blur-md rounded-[2rem] border-2 shadow-2xl overflow-hidden transition-colors duration-500"
+                style={{ borderColor: borderColor }}
+            >
+                 <div className="p-5 flex flex-col gap-3">
+                     <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <div className="p-2 bg-white/10 rounded-xl">
+                                <BrainCircuit className="w-5 h-5" style={{ color: borderColor }} />
+                            </div>
+                            <div>
+                                <h2 className="font-black text-base tracking-wide uppercase text-white">
+                                    AI 선생님
+                                </h2>
+                            </div>
                         </div>
-                        <div>
-                            <h2 className="font-black text-base tracking-wide uppercase text-white">
-                                AI 선생님
-                            </h2>
-                        </div>
-                    </div>
                     
-                    {/* TTS Toggle Button */}
-                    <button 
-                        onClick={() => setTtsEnabled(!ttsEnabled)}
-                        className={`p-2.5 rounded-full transition-all duration-300 ${ttsEnabled ? 'bg-[#42a5f5] text-white shadow-lg shadow-blue-500/30' : 'bg-white/5 text-gray-500 hover:bg-white/10'}`}
-                        title={ttsEnabled ? "음성 끄기" : "음성 켜기"}
-                    >
-                        {ttsEnabled ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
-                    </button>
-                 </div>
+                        <div className="flex items-center gap-2">
+                            {/* AI Inspector Toggle */}
+                            <button
+                                onClick={() => setShowDebug(!showDebug)}
+                                className={`p-2.5 rounded-full transition-all duration-300 ${showDebug ? 'bg-[#a8c7fa] text-black' : 'bg-white/5 text-gray-500 hover:bg-white/10'}`}
+                                title="AI 분석 보기"
+                            >
+                                <Terminal className="w-4 h-4" />
+                            </button>
+
+                            {/* TTS Toggle Button */}
+                            <button 
+                                onClick={() => setTtsEnabled(!ttsEnabled)}
+                                className={`p-2.5 rounded-full transition-all duration-300 ${ttsEnabled ? 'bg-[#42a5f5] text-white shadow-lg shadow-blue-500/30' : 'bg-white/5 text-gray-500 hover:bg-white/10'}`}
+                                title={ttsEnabled ? "음성 끄기" : "음성 켜기"}
+                            >
+                                {ttsEnabled ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+                            </button>
+                        </div>
+                     </div>
                  
-                 {/* Speech Bubble */}
-                 <div className="relative bg-[#252525] p-4 rounded-2xl rounded-tr-sm border border-white/5">
-                     <p className="text-white text-base leading-relaxed font-bold break-keep">
-                        "{aiHint}"
-                     </p>
+                     {/* Speech Bubble */}
+                     <div className="relative bg-[#252525] p-4 rounded-2xl rounded-tr-sm border border-white/5">
+                         <p className="text-white text-base leading-relaxed font-bold break-keep">
+                            "{aiHint}"
+                         </p>
                      
-                     {aiRationale && (
-                         <div className="flex gap-2 mt-2 pt-2 border-t border-white/5">
-                             <Lightbulb className="w-4 h-4 text-[#a8c7fa] shrink-0 mt-0.5" />
-                             <p className="text-[#a8c7fa] text-xs italic opacity-80 leading-tight">
-                                {aiRationale}
-                             </p>
-                         </div>
-                     )}
-                 </div>
+                         {aiRationale && (
+                             <div className="flex gap-2 mt-2 pt-2 border-t border-white/5">
+                                 <Lightbulb className="w-4 h-4 text-[#a8c7fa] shrink-0 mt-0.5" />
+                                 <p className="text-[#a8c7fa] text-xs italic opacity-80 leading-tight">
+                                    {aiRationale}
+                                 </p>
+                             </div>
+                         )}
+                     </div>
                  
-                 {aiRecommendedColor && (
-                    <div className="flex items-center gap-2 mt-1 px-1">
-                        <Target className="w-4 h-4 text-gray-500" />
-                        <span className="text-xs text-gray-400 font-bold uppercase tracking-wide">추천:</span>
-                        <span className="text-xs font-black uppercase px-2 py-0.5 rounded-md shadow-sm" style={{ backgroundColor: COLOR_CONFIG[aiRecommendedColor].hex, color: COLOR_CONFIG[aiRecommendedColor].textColor }}>
-                            {COLOR_CONFIG[aiRecommendedColor].label}
-                        </span>
+                     {aiRecommendedColor && (
+                        <div className="flex items-center gap-2 mt-1 px-1">
+                            <Target className="w-4 h-4 text-gray-500" />
+                            <span className="text-xs text-gray-400 font-bold uppercase tracking-wide">추천:</span>
+                            <span className="text-xs font-black uppercase px-2 py-0.5 rounded-md shadow-sm" style={{ backgroundColor: COLOR_CONFIG[aiRecommendedColor].hex, color: COLOR_CONFIG[aiRecommendedColor].textColor }}>
+                                {vocabPack.words[aiRecommendedColor].word}
+                            </span>
+                        </div>
+                     )}
+                </div>
+            
+                {/* Thinking Indicator Bar */}
+                {isAiThinking && (
+                    <div className="h-1 w-full bg-[#252525] overflow-hidden">
+                        <div className="h-full bg-[#a8c7fa] animate-progress-indeterminate"></div>
                     </div>
-                 )}
+                )}
             </div>
-            
-            {/* Thinking Indicator Bar */}
-            {isAiThinking && (
-                <div className="h-1 w-full bg-[#252525] overflow-hidden">
-                    <div className="h-full bg-[#a8c7fa] animate-progress-indeterminate"></div>
-                </div>
-            )}
-        </div>
+        )}
 
         {/* Bottom Tip */}
-        {!isPinching.current && !isFlying.current && !isAiThinking && (
+        {!versus && !isPinching.current && !engineRef.current?.state.slingshots[0].ball.flying && (!isAiThinking || hintMode === 'background') && (
             <div className="absolute bottom-36 left-1/2 -translate-x-1/2 z-30 pointer-events-none opacity-50">
                 <div className="flex items-center gap-2 bg-[#1e1e1e]/90 px-6 py-3 rounded-full border border-[#444746] backdrop-blur-sm">
                     <Play className="w-4 h-4 text-[#42a5f5] fill-current" />
-                    <p className="text-[#e3e3e3] text-sm font-bold">엄지와 검지로 잡아서 당기세요!</p>
+                    <p className="text-[#e3e3e3] text-sm font-bold">
+                        {inputMode === 'camera' ? "엄지와 검지로 잡아서 당기세요!" : "공을 눌러서 당겼다가 놓으세요!"}
+                    </p>
                 </div>
             </div>
         )}
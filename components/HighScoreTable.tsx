@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { HighScoreEntry } from '../services/saveService';
+import { Trophy } from 'lucide-react';
+
+interface HighScoreTableProps {
+  entries: HighScoreEntry[]; // Best first
+  highlight?: HighScoreEntry | null; // The entry just added
+}
+
+const HighScoreTable: React.FC<HighScoreTableProps> = ({ entries, highlight }) => (
+  <div className="w-full min-w-[320px]">
+    <p className="flex items-center gap-2 text-sm text-[#c4c7c5] uppercase tracking-wider font-bold mb-2">
+      <Trophy className="w-4 h-4 text-[#fdd835]" /> 최고 기록
+    </p>
+    {entries.length === 0 ? (
+      <p className="text-sm text-[#757575]">아직 기록이 없어요.</p>
+    ) : (
+      <table className="w-full text-left text-sm">
+        <tbody>
+          {entries.map((entry, i) => (
+            <tr
+              key={`${entry.date}-${i}`}
+              className={`border-t border-white/5 ${entry === highlight ? 'text-[#fdd835] font-bold' : 'text-[#e3e3e3]'}`}
+            >
+              <td className="py-1 pr-2 text-[#757575]">{i + 1}</td>
+              <td className="py-1 pr-2">{entry.name}</td>
+              <td className="py-1 pr-2 text-right font-bold">{entry.score.toLocaleString()}</td>
+              <td className="py-1 pr-2 text-[#c4c7c5]">{entry.vocabPackName}</td>
+              <td className="py-1 text-[#757575]">{new Date(entry.date).toLocaleDateString('ko-KR')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export default HighScoreTable;
@@ -0,0 +1,465 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BubbleColor, LevelDefinition, LevelGoal, Point, VocabPack } from '../types';
+import { BUBBLE_RADIUS, GRID_COLS, COLOR_KEYS, getBubblePos, getColsInRow, getCeilingY } from '../engine/grid';
+import { CEILING_DROP_MISSES, CEILING_DROP_INTERVAL_MS } from '../engine/gameEngine';
+import { LAYOUT_COLORS, LAYOUT_EMPTY, LAYOUT_RAINBOW, LAYOUT_RANDOM, LAYOUT_STONE, isBombCode, toBombCode } from '../engine/level';
+import { BUILT_IN_LEVELS, MAX_LAYOUT_ROWS, validateLevel, loadLevelFromFile } from '../services/levelService';
+import { downloadJson, fileTimestamp } from '../services/fileService';
+import { COLOR_CONFIG, drawBubble } from './bubbleRenderer';
+import { Pencil, X, Eraser, Shuffle, Save, Download, Upload, Play, Plus, Trash2, AlertTriangle, Bomb, Rainbow, Mountain } from 'lucide-react';
+
+interface LevelEditorProps {
+  initial: LevelDefinition | null; // null = start a new level
+  vocab: VocabPack;
+  onSave: (level: LevelDefinition) => void;
+  onPlayTest: (level: LevelDefinition) => void;
+  onClose: () => void;
+}
+
+// Same logical width as the game board on a narrow screen, tall enough for the deepest allowed layout
+const EDITOR_WIDTH = (GRID_COLS + 1) * BUBBLE_RADIUS * 2;
+const EDITOR_HEIGHT = Math.ceil(getBubblePos(MAX_LAYOUT_ROWS - 1, 0, EDITOR_WIDTH).y + BUBBLE_RADIUS * 2);
+
+const COLOR_CODES = Object.fromEntries(
+  Object.entries(LAYOUT_COLORS).map(([code, color]) => [color, code])
+) as Record<BubbleColor, string>;
+
+// Everything the form edits; the layout is kept as a full grid of cells while editing
+interface Draft {
+  id: string;
+  name: string;
+  description: string;
+  cells: string[][];
+  colors: BubbleColor[];
+  shotLimit?: number;
+  goals: LevelGoal[];
+  dropMisses?: number;
+  dropIntervalMs?: number;
+  stars: [number, number, number];
+}
+
+const newLevelId = () => `custom-${Date.now().toString(36)}`;
+
+const toDraft = (level: LevelDefinition | null): Draft => {
+  const layout = level?.layout ?? [];
+  return {
+    id: level?.id ?? newLevelId(),
+    name: level?.name ?? "새 레벨",
+    description: level?.description ?? "",
+    cells: Array.from({ length: MAX_LAYOUT_ROWS }, (_, r) =>
+      Array.from({ length: getColsInRow(r) }, (_, c) => layout[r]?.[c] ?? LAYOUT_EMPTY)
+    ),
+    colors: level?.colors ?? ['red', 'blue', 'green'],
+    shotLimit: level ? level.shotLimit : 30,
+    goals: level?.goals ?? [{ type: 'clear' }],
+    dropMisses: level?.ceiling?.dropMisses,
+    dropIntervalMs: level?.ceiling?.dropIntervalMs,
+    stars: level?.stars ?? [1000, 3000, 6000]
+  };
+};
+
+// Plain level JSON; trailing empty rows are dropped so the board keeps its authored depth
+const fromDraft = (draft: Draft): unknown => {
+  const layout = draft.cells.map(row => row.join(''));
+  while (layout.length > 0 && !/[^.]/.test(layout[layout.length - 1])) layout.pop();
+  const ceiling = draft.dropMisses === undefined && draft.dropIntervalMs === undefined
+    ? undefined
+    : { dropMisses: draft.dropMisses, dropIntervalMs: draft.dropIntervalMs };
+  return {
+    id: draft.id,
+    name: draft.name,
+    description: draft.description.trim() || undefined,
+    layout,
+    colors: draft.colors,
+    shotLimit: draft.shotLimit,
+    goals: draft.goals,
+    ceiling,
+    stars: draft.stars
+  };
+};
+
+// Empty number fields mean "use the default"
+const toOptionalNumber = (value: string) => value === '' ? undefined : Number(value);
+
+const inputClass = "bg-[#252525] border-2 border-[#444746] rounded-xl px-3 py-2 text-white text-sm outline-none focus:border-[#42a5f5]";
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ initial, vocab, onSave, onPlayTest, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const paintingRef = useRef(false);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(initial));
+  const [brush, setBrush] = useState<string>(COLOR_CODES.red);
+  const [bombBrush, setBombBrush] = useState(false); // Word brushes paint bombs of that word
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [savedNote, setSavedNote] = useState(false);
+
+  const { level, errors } = useMemo(() => validateLevel(fromDraft(draft)), [draft]);
+
+  const update = (patch: Partial<Draft>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setSavedNote(false);
+  };
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#121212';
+    ctx.fillRect(0, 0, EDITOR_WIDTH, EDITOR_HEIGHT);
+    ctx.fillStyle = '#2a2a2a';
+    ctx.fillRect(0, 0, EDITOR_WIDTH, getCeilingY(0));
+
+    draft.cells.forEach((row, r) => row.forEach((code, c) => {
+      const { x, y } = getBubblePos(r, c, EDITOR_WIDTH);
+      if (code === LAYOUT_EMPTY) {
+        ctx.beginPath();
+        ctx.arc(x, y, BUBBLE_RADIUS - 4, 0, Math.PI * 2);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.12)';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      } else if (code === LAYOUT_RAINBOW || code === LAYOUT_STONE) {
+        drawBubble(ctx, x, y, BUBBLE_RADIUS - 1, null, vocab, code === LAYOUT_RAINBOW ? 'rainbow' : 'stone');
+      } else {
+        // Random cells show the quiz's "?" ball
+        const color = code === LAYOUT_RANDOM ? null : LAYOUT_COLORS[code.toLowerCase()];
+        drawBubble(ctx, x, y, BUBBLE_RADIUS - 1, color, vocab, isBombCode(code) ? 'bomb' : 'normal');
+      }
+    }));
+  }, [draft.cells, vocab]);
+
+  // The canvas is mirrored like the game board, so screen x is flipped back into canvas space
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (rect.right - e.clientX) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height)
+    };
+  };
+
+  const paintAt = (pos: Point) => {
+    const paint = bombBrush && LAYOUT_COLORS[brush] ? toBombCode(brush) : brush;
+    for (let r = 0; r < MAX_LAYOUT_ROWS; r++) {
+      for (let c = 0; c < getColsInRow(r); c++) {
+        const { x, y } = getBubblePos(r, c, EDITOR_WIDTH);
+        if (Math.hypot(pos.x - x, pos.y - y) > BUBBLE_RADIUS) continue;
+        setDraft(prev => {
+          if (prev.cells[r][c] === paint) return prev;
+          const cells = prev.cells.map((row, i) => i === r ? row.map((code, j) => j === c ? paint : code) : row);
+          // A painted word has to be shootable, or the level could never be cleared
+          const color = LAYOUT_COLORS[brush];
+          const colors = color && !prev.colors.includes(color) ? COLOR_KEYS.filter(k => k === color || prev.colors.includes(k)) : prev.colors;
+          return { ...prev, cells, colors };
+        });
+        setSavedNote(false);
+        return;
+      }
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    paintingRef.current = true;
+    paintAt(toCanvasPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (paintingRef.current) paintAt(toCanvasPoint(e));
+  };
+
+  const toggleColor = (color: BubbleColor) => {
+    const colors = draft.colors.includes(color)
+      ? draft.colors.filter(c => c !== color)
+      : COLOR_KEYS.filter(c => c === color || draft.colors.includes(c));
+    update({ colors });
+  };
+
+  const updateGoal = (index: number, goal: LevelGoal) =>
+    update({ goals: draft.goals.map((g, i) => i === index ? goal : g) });
+
+  const changeGoalType = (index: number, type: LevelGoal['type']) => {
+    switch (type) {
+      case 'clear':
+        return updateGoal(index, { type });
+      case 'pop':
+        return updateGoal(index, { type, color: draft.colors[0] ?? 'red', count: 10 });
+      case 'score':
+        return updateGoal(index, { type, score: 3000 });
+    }
+  };
+
+  const handleSave = () => {
+    if (!level) return;
+    onSave(level);
+    setSavedNote(true);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file after fixing it
+    if (!file) return;
+
+    const result = await loadLevelFromFile(file);
+    setImportErrors(result.errors);
+    if (result.level) {
+      // A copy of a built-in level becomes a new level instead of shadowing the original's progress
+      const isBuiltIn = BUILT_IN_LEVELS.some(l => l.id === result.level!.id);
+      setDraft({ ...toDraft(result.level), id: isBuiltIn ? newLevelId() : result.level.id });
+      setSavedNote(false);
+    }
+  };
+
+  const brushes: { code: string, label: string, hex: string, textColor: string }[] = [
+    ...COLOR_KEYS.map(c => ({ code: COLOR_CODES[c], label: vocab.words[c].word, ...COLOR_CONFIG[c] })),
+    { code: LAYOUT_RANDOM, label: "아무 단어", hex: '#9e9e9e', textColor: '#ffffff' },
+    { code: LAYOUT_RAINBOW, label: "무지개", hex: '#ab47bc', textColor: '#ffffff' },
+    { code: LAYOUT_STONE, label: "돌", hex: '#8d8478', textColor: '#ffffff' }
+  ];
+
+  return (
+    <div className="absolute inset-0 z-[80] flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-full max-w-6xl max-h-[92vh] overflow-y-auto p-8 rounded-[32px] border-2 border-[#444746] shadow-2xl flex flex-col gap-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white/10 rounded-xl">
+              <Pencil className="w-5 h-5 text-[#42a5f5]" />
+            </div>
+            <h2 className="font-black text-xl text-white">레벨 만들기</h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-gray-400" title="닫기">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-6">
+          {/* Board: click or drag to paint cells with the chosen brush */}
+          <div className="flex-1 flex flex-col gap-3 min-w-0">
+            <div className="flex flex-wrap gap-2">
+              {brushes.map(b => (
+                <button
+                  key={b.code}
+                  onClick={() => setBrush(b.code)}
+                  className={`flex items-center gap-1.5 px-3 py-2 rounded-full text-sm font-bold border-2 transition-colors ${brush === b.code ? 'border-white' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                  style={{ backgroundColor: b.hex, color: b.textColor }}
+                >
+                  {b.code === LAYOUT_RANDOM && <Shuffle className="w-4 h-4" />}
+                  {b.code === LAYOUT_RAINBOW && <Rainbow className="w-4 h-4" />}
+                  {b.code === LAYOUT_STONE && <Mountain className="w-4 h-4" />}
+                  {b.label}
+                </button>
+              ))}
+              <button
+                onClick={() => setBrush(LAYOUT_EMPTY)}
+                className={`flex items-center gap-1.5 px-3 py-2 rounded-full text-sm font-bold border-2 bg-[#252525] text-[#e3e3e3] transition-colors ${brush === LAYOUT_EMPTY ? 'border-white' : 'border-transparent opacity-70 hover:opacity-100'}`}
+              >
+                <Eraser className="w-4 h-4" />
+                지우개
+              </button>
+              <button
+                onClick={() => setBombBrush(!bombBrush)}
+                className={`flex items-center gap-1.5 px-3 py-2 rounded-full text-sm font-bold border-2 bg-[#212121] text-[#ffca28] transition-colors ${bombBrush ? 'border-[#ffca28]' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                title="켜면 단어 구슬을 폭탄으로 칠해요"
+              >
+                <Bomb className="w-4 h-4" />
+                폭탄 {bombBrush ? "켜짐" : "꺼짐"}
+              </button>
+            </div>
+            <canvas
+              ref={canvasRef}
+              width={EDITOR_WIDTH}
+              height={EDITOR_HEIGHT}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => { paintingRef.current = false; }}
+              onPointerCancel={() => { paintingRef.current = false; }}
+              className="w-full rounded-2xl border-2 border-[#444746] cursor-crosshair touch-none"
+              style={{ transform: 'scaleX(-1)' }}
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => update({ cells: toDraft(null).cells })}
+                className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-[#e3e3e3] font-bold text-sm px-4 py-2 rounded-full"
+              >
+                <Trash2 className="w-4 h-4" />
+                모두 지우기
+              </button>
+            </div>
+          </div>
+
+          {/* Level settings */}
+          <div className="lg:w-[340px] flex flex-col gap-4 text-sm">
+            <label className="flex flex-col gap-1 text-[#c4c7c5] font-bold">
+              이름
+              <input value={draft.name} onChange={e => update({ name: e.target.value })} maxLength={30} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-[#c4c7c5] font-bold">
+              설명
+              <input value={draft.description} onChange={e => update({ description: e.target.value })} maxLength={60} className={inputClass} />
+            </label>
+
+            <div className="flex flex-col gap-1">
+              <p className="text-[#c4c7c5] font-bold">쏠 수 있는 단어</p>
+              <div className="flex flex-wrap gap-1.5">
+                {COLOR_KEYS.map(c => (
+                  <button
+                    key={c}
+                    onClick={() => toggleColor(c)}
+                    className={`px-3 py-1.5 rounded-full text-xs font-bold transition-opacity ${draft.colors.includes(c) ? '' : 'opacity-30'}`}
+                    style={{ backgroundColor: COLOR_CONFIG[c].hex, color: COLOR_CONFIG[c].textColor }}
+                  >
+                    {vocab.words[c].word}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <p className="text-[#c4c7c5] font-bold">목표</p>
+              {draft.goals.map((goal, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <select value={goal.type} onChange={e => changeGoalType(i, e.target.value as LevelGoal['type'])} className={inputClass}>
+                    <option value="clear">모두 없애기</option>
+                    <option value="pop">단어 터뜨리기</option>
+                    <option value="score">점수</option>
+                  </select>
+                  {goal.type === 'pop' && (
+                    <>
+                      <select value={goal.color} onChange={e => updateGoal(i, { ...goal, color: e.target.value as BubbleColor })} className={`${inputClass} min-w-0`}>
+                        {COLOR_KEYS.map(c => <option key={c} value={c}>{vocab.words[c].word}</option>)}
+                      </select>
+                      <input type="number" min={1} value={goal.count} onChange={e => updateGoal(i, { ...goal, count: Number(e.target.value) })} className={`${inputClass} w-16`} />
+                    </>
+                  )}
+                  {goal.type === 'score' && (
+                    <input type="number" min={1} step={100} value={goal.score} onChange={e => updateGoal(i, { ...goal, score: Number(e.target.value) })} className={`${inputClass} w-28`} />
+                  )}
+                  <button
+                    onClick={() => update({ goals: draft.goals.filter((_, j) => j !== i) })}
+                    className="ml-auto p-2 rounded-full bg-white/5 hover:bg-white/10 text-gray-400"
+                    title="목표 지우기"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => update({ goals: [...draft.goals, { type: 'clear' }] })}
+                className="self-start flex items-center gap-1.5 bg-white/5 hover:bg-white/10 text-[#e3e3e3] font-bold text-xs px-3 py-2 rounded-full"
+              >
+                <Plus className="w-4 h-4" />
+                목표 더하기
+              </button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <label className="flex flex-col gap-1 text-[#c4c7c5] font-bold">
+                구슬 수
+                <input type="number" min={1} value={draft.shotLimit ?? ''} placeholder="무제한" onChange={e => update({ shotLimit: toOptionalNumber(e.target.value) })} className={inputClass} />
+              </label>
+              <label className="flex flex-col gap-1 text-[#c4c7c5] font-bold">
+                천장 (빗나감)
+                <input type="number" min={0} value={draft.dropMisses ?? ''} placeholder={String(CEILING_DROP_MISSES)} onChange={e => update({ dropMisses: toOptionalNumber(e.target.value) })} className={inputClass} />
+              </label>
+              <label className="flex flex-col gap-1 text-[#c4c7c5] font-bold">
+                천장 (초)
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.dropIntervalMs === undefined ? '' : draft.dropIntervalMs / 1000}
+                  placeholder={String(CEILING_DROP_INTERVAL_MS / 1000)}
+                  onChange={e => {
+                    const seconds = toOptionalNumber(e.target.value);
+                    update({ dropIntervalMs: seconds === undefined ? undefined : Math.round(seconds * 1000) });
+                  }}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <p className="text-xs text-[#757575] -mt-2">천장 칸을 0으로 두면 내려오지 않아요.</p>
+
+            <div className="flex flex-col gap-1">
+              <p className="text-[#c4c7c5] font-bold">별 점수</p>
+              <div className="grid grid-cols-3 gap-2">
+                {draft.stars.map((s, i) => (
+                  <input
+                    key={i}
+                    type="number"
+                    min={0}
+                    step={100}
+                    value={s}
+                    onChange={e => {
+                      const stars = [...draft.stars] as [number, number, number];
+                      stars[i] = Number(e.target.value);
+                      update({ stars });
+                    }}
+                    className={inputClass}
+                    title={`별 ${i + 1}개`}
+                  />
+                ))}
+              </div>
+            </div>
+
+            {errors.length > 0 && (
+              <div className="flex gap-2 p-3 rounded-xl bg-[#ef5350]/10 border border-[#ef5350]/40">
+                <AlertTriangle className="w-4 h-4 text-[#ef5350] shrink-0 mt-0.5" />
+                <ul className="text-xs text-[#ef9a9a] space-y-1">
+                  {errors.map((err, i) => <li key={i}>{err}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => level && onPlayTest(level)}
+            disabled={!level}
+            className="flex items-center gap-2 bg-[#42a5f5] hover:bg-[#64b5f6] disabled:opacity-50 text-white font-bold px-6 py-3 rounded-full transition-colors"
+          >
+            <Play className="w-4 h-4 fill-current" />
+            바로 해보기
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!level}
+            className="flex items-center gap-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white font-bold px-6 py-3 rounded-full transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            {savedNote ? "저장했어요" : "저장"}
+          </button>
+          <button
+            onClick={() => level && downloadJson(`level_${level.id}_${fileTimestamp()}.json`, level)}
+            disabled={!level}
+            className="flex items-center gap-2 bg-white/5 hover:bg-white/10 disabled:opacity-50 text-[#e3e3e3] font-bold text-sm px-5 py-3 rounded-full"
+          >
+            <Download className="w-4 h-4" />
+            파일로 내보내기
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-[#e3e3e3] font-bold text-sm px-5 py-3 rounded-full"
+          >
+            <Upload className="w-4 h-4" />
+            파일 불러오기
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+        </div>
+
+        {importErrors.length > 0 && (
+          <div className="flex gap-2 p-3 rounded-xl bg-[#ef5350]/10 border border-[#ef5350]/40">
+            <AlertTriangle className="w-4 h-4 text-[#ef5350] shrink-0 mt-0.5" />
+            <ul className="text-xs text-[#ef9a9a] space-y-1">
+              {importErrors.map((err, i) => <li key={i}>{err}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { LevelDefinition, VocabPack } from '../types';
+import { GoalProgress } from '../engine/level';
+import { describeGoal } from '../services/levelService';
+import { Flag, Check, CircleDot } from 'lucide-react';
+
+interface LevelHudProps {
+  level: LevelDefinition;
+  goals: GoalProgress[];
+  shotsLeft: number | null;
+  vocab: VocabPack;
+}
+
+// Goals of the running level with live progress, under the score card
+const LevelHud: React.FC<LevelHudProps> = ({ level, goals, shotsLeft, vocab }) => (
+  <div className="mt-3 bg-[#1e1e1e] p-5 rounded-[24px] border-2 border-[#444746] shadow-2xl min-w-[200px] max-w-[260px] flex flex-col gap-2">
+    <p className="flex items-center gap-2 text-sm text-[#c4c7c5] uppercase tracking-wider font-bold">
+      <Flag className="w-4 h-4 text-[#42a5f5]" /> {level.name}
+    </p>
+    {goals.map((g, i) => (
+      <div key={i} className="flex items-center justify-between gap-3 text-sm">
+        <span className={`flex items-center gap-1.5 font-bold ${g.done ? 'text-[#66bb6a]' : 'text-white'}`}>
+          {g.done ? <Check className="w-4 h-4" /> : <CircleDot className="w-4 h-4 text-[#757575]" />}
+          {describeGoal(g.goal, vocab)}
+        </span>
+        {/* "Clear" counts down the bubbles left; the other goals count up */}
+        <span className="text-[#c4c7c5] whitespace-nowrap">
+          {g.goal.type === 'clear' ? `${g.current}개 남음` : `${g.current.toLocaleString()}/${g.target.toLocaleString()}`}
+        </span>
+      </div>
+    ))}
+    {shotsLeft !== null && (
+      <p className={`text-sm font-bold ${shotsLeft <= 3 ? 'text-[#ef5350]' : 'text-[#c4c7c5]'}`}>남은 구슬 {shotsLeft}개</p>
+    )}
+  </div>
+);
+
+export default LevelHud;
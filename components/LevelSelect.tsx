@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { LevelDefinition, VocabPack } from '../types';
+import { LevelProgress, isLevelUnlocked, describeGoal } from '../services/levelService';
+import { Map as MapIcon, X, Lock, Star, Infinity as InfinityIcon, Check, Pencil, Plus, Trash2 } from 'lucide-react';
+
+interface LevelSelectProps {
+  levels: LevelDefinition[];
+  customLevels: LevelDefinition[]; // Made in the level editor, always unlocked
+  progress: LevelProgress;
+  vocab: VocabPack;
+  activeLevelId: string | null; // null = free play
+  onSelect: (level: LevelDefinition | null) => void;
+  onEdit: (level: LevelDefinition | null) => void; // null = new level
+  onDelete: (level: LevelDefinition) => void;
+  onClose: () => void;
+}
+
+export const StarRow: React.FC<{ count: number, size?: string }> = ({ count, size = 'w-4 h-4' }) => (
+  <span className="flex items-center gap-0.5">
+    {[0, 1, 2].map(i => (
+      <Star key={i} className={`${size} ${i < count ? 'text-[#fdd835] fill-current' : 'text-white/20'}`} />
+    ))}
+  </span>
+);
+
+const LevelSelect: React.FC<LevelSelectProps> = ({ levels, customLevels, progress, vocab, activeLevelId, onSelect, onEdit, onDelete, onClose }) => (
+  <div className="absolute inset-0 z-[80] flex items-center justify-center bg-black/70 backdrop-blur-sm">
+    <div className="bg-[#1e1e1e] w-full max-w-3xl max-h-[85vh] overflow-y-auto p-8 rounded-[32px] border-2 border-[#444746] shadow-2xl flex flex-col gap-5">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-white/10 rounded-xl">
+            <MapIcon className="w-5 h-5 text-[#42a5f5]" />
+          </div>
+          <h2 className="font-black text-xl text-white">레벨 고르기</h2>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-gray-400" title="닫기">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <button
+        onClick={() => onSelect(null)}
+        className={`flex items-center justify-between text-left p-4 rounded-2xl border-2 transition-colors ${activeLevelId === null ? 'border-[#42a5f5] bg-[#42a5f5]/10' : 'border-white/5 bg-[#252525] hover:border-white/20'}`}
+      >
+        <div className="flex items-center gap-3">
+          <InfinityIcon className="w-6 h-6 text-[#42a5f5]" />
+          <div>
+            <p className="font-bold text-white">자유 놀이</p>
+            <p className="text-xs text-[#c4c7c5] mt-1">목표 없이 끝까지 버텨요</p>
+          </div>
+        </div>
+        {activeLevelId === null && <Check className="w-4 h-4 text-[#42a5f5]" />}
+      </button>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {levels.map((level, i) => {
+          const unlocked = isLevelUnlocked(levels, i, progress);
+          const result = progress.results[level.id];
+          const isActive = level.id === activeLevelId;
+          return (
+            <button
+              key={level.id}
+              onClick={() => onSelect(level)}
+              disabled={!unlocked}
+              className={`text-left p-4 rounded-2xl border-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isActive ? 'border-[#42a5f5] bg-[#42a5f5]/10' : 'border-white/5 bg-[#252525] hover:border-white/20'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-bold text-white">
+                  <span className="text-[#757575] mr-2">{i + 1}</span>
+                  {level.name}
+                </p>
+                {unlocked ? <StarRow count={result?.stars ?? 0} /> : <Lock className="w-4 h-4 text-[#757575]" />}
+              </div>
+              {level.description && <p className="text-xs text-[#c4c7c5] mt-1">{level.description}</p>}
+              <p className="text-sm text-[#e3e3e3] mt-2 break-keep">
+                {level.goals.map(g => describeGoal(g, vocab)).join(' · ')}
+                {level.shotLimit && <span className="text-[#757575]"> · 구슬 {level.shotLimit}개</span>}
+              </p>
+              {result && <p className="text-xs text-[#757575] mt-1">최고 {result.bestScore.toLocaleString()}점</p>}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between mt-2">
+        <h3 className="font-bold text-white">내가 만든 레벨</h3>
+        <button
+          onClick={() => onEdit(null)}
+          className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-[#e3e3e3] font-bold text-sm px-4 py-2 rounded-full"
+        >
+          <Plus className="w-4 h-4" />
+          새 레벨 만들기
+        </button>
+      </div>
+      {customLevels.length === 0 && (
+        <p className="text-sm text-[#757575]">아직 없어요. 원하는 단어로 판을 직접 그려 보세요.</p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {customLevels.map(level => {
+          const result = progress.results[level.id];
+          const isActive = level.id === activeLevelId;
+          return (
+            <div
+              key={level.id}
+              className={`flex items-start gap-2 p-4 rounded-2xl border-2 transition-colors ${isActive ? 'border-[#42a5f5] bg-[#42a5f5]/10' : 'border-white/5 bg-[#252525] hover:border-white/20'}`}
+            >
+              <button onClick={() => onSelect(level)} className="flex-1 text-left min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-bold text-white">{level.name}</p>
+                  <StarRow count={result?.stars ?? 0} />
+                </div>
+                {level.description && <p className="text-xs text-[#c4c7c5] mt-1">{level.description}</p>}
+                <p className="text-sm text-[#e3e3e3] mt-2 break-keep">
+                  {level.goals.map(g => describeGoal(g, vocab)).join(' · ')}
+                  {level.shotLimit && <span className="text-[#757575]"> · 구슬 {level.shotLimit}개</span>}
+                </p>
+              </button>
+              <div className="flex flex-col gap-1">
+                <button onClick={() => onEdit(level)} className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-gray-400" title="고치기">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => { if (window.confirm(`"${level.name}" 레벨을 지울까요?`)) onDelete(level); }}
+                  className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-gray-400"
+                  title="지우기"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  </div>
+);
+
+export default LevelSelect;
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { VocabPack } from '../types';
+import { QuizState, QuizAnswer } from '../engine/quiz';
+import { Headphones, Volume2, Check, X, Flame } from 'lucide-react';
+
+interface QuizPanelProps {
+  quiz: QuizState;
+  vocab: VocabPack;
+  feedback: QuizAnswer | null; // Last answer, shown briefly
+  onReplay: () => void;
+}
+
+// Takes the AI teacher's place while the listening quiz runs; the word itself is never shown before it is answered
+const QuizPanel: React.FC<QuizPanelProps> = ({ quiz, vocab, feedback, onReplay }) => {
+  const asked = Math.min(quiz.answers.length + 1, quiz.promptCount);
+
+  return (
+    <div className="absolute bottom-8 right-8 z-40 w-[360px] bg-[#1e1e1e]/95 backdrop-blur-md rounded-[2rem] border-2 border-[#42a5f5] shadow-2xl overflow-hidden">
+      <div className="p-5 flex flex-col gap-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white/10 rounded-xl">
+              <Headphones className="w-5 h-5 text-[#42a5f5]" />
+            </div>
+            <h2 className="font-black text-base tracking-wide text-white">듣고 맞추기</h2>
+          </div>
+          <div className="flex items-center gap-2 text-sm font-bold">
+            {quiz.streak > 1 && (
+              <span className="flex items-center gap-1 text-[#ffa726]"><Flame className="w-4 h-4" /> {quiz.streak}</span>
+            )}
+            <span className="text-[#c4c7c5]">{asked} / {quiz.promptCount}</span>
+          </div>
+        </div>
+
+        {/* Progress: one dot per prompt */}
+        <div className="flex gap-1">
+          {Array.from({ length: quiz.promptCount }, (_, i) => {
+            const answer = quiz.answers[i];
+            const color = answer ? (answer.correct ? 'bg-[#66bb6a]' : 'bg-[#ef5350]') : i === quiz.answers.length ? 'bg-[#42a5f5]' : 'bg-white/10';
+            return <div key={i} className={`h-2 flex-1 rounded-full ${color}`} />;
+          })}
+        </div>
+
+        {feedback ? (
+          <div className={`flex items-center gap-3 p-4 rounded-2xl ${feedback.correct ? 'bg-[#66bb6a]/20' : 'bg-[#ef5350]/20'}`}>
+            {feedback.correct
+              ? <Check className="w-8 h-8 text-[#66bb6a] shrink-0" />
+              : <X className="w-8 h-8 text-[#ef5350] shrink-0" />}
+            <div>
+              <p className="text-white text-lg font-black">
+                {feedback.correct ? `정답! ${vocab.words[feedback.target].word}` : `아쉬워요! 그건 ${vocab.words[feedback.hit].word}`}
+              </p>
+              <p className={`text-sm font-bold ${feedback.points >= 0 ? 'text-[#66bb6a]' : 'text-[#ef5350]'}`}>
+                {feedback.points >= 0 ? '+' : ''}{feedback.points}점
+              </p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-white text-base leading-relaxed font-bold break-keep bg-[#252525] p-4 rounded-2xl border border-white/5">
+            잘 듣고 같은 단어가 적힌 구슬을 맞춰요!
+          </p>
+        )}
+
+        <button
+          onClick={onReplay}
+          disabled={quiz.target === null}
+          className="flex items-center justify-center gap-2 bg-[#42a5f5] hover:bg-[#64b5f6] disabled:opacity-50 text-white font-bold px-5 py-3 rounded-full transition-colors"
+        >
+          <Volume2 className="w-5 h-5" />
+          다시 듣기
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuizPanel;
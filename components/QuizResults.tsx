@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { VocabPack } from '../types';
+import { QuizState, getQuizResults } from '../engine/quiz';
+import { withObjectParticle } from '../services/vocabService';
+import { Headphones, RotateCcw, Palette, Check, X } from 'lucide-react';
+
+interface QuizResultsProps {
+  quiz: QuizState;
+  vocab: VocabPack;
+  onPlayAgain: () => void;
+  onExit: () => void; // Back to the colour-matching game
+}
+
+const QuizResults: React.FC<QuizResultsProps> = ({ quiz, vocab, onPlayAgain, onExit }) => {
+  const correct = quiz.answers.filter(a => a.correct).length;
+  const results = getQuizResults(quiz);
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/70 backdrop-blur-sm z-[70]">
+      <div className="bg-[#1e1e1e] p-10 rounded-[32px] border-2 border-[#42a5f5] shadow-2xl flex flex-col items-center gap-4 max-h-[90vh] overflow-y-auto">
+        <Headphones className="w-14 h-14 text-[#42a5f5]" />
+        <h2 className="text-4xl font-black text-white">듣고 맞추기 결과</h2>
+        {quiz.endedEarly && <p className="text-[#c4c7c5] text-lg">구슬이 빨간 선에 닿아서 일찍 끝났어요.</p>}
+        <p className="text-5xl font-black text-white">{correct} / {quiz.answers.length}</p>
+        <p className="text-[#c4c7c5] text-lg">{quiz.score.toLocaleString()}점</p>
+
+        {/* Every prompt in order: what was asked, what was hit */}
+        <div className="flex flex-wrap justify-center gap-2 max-w-md">
+          {quiz.answers.map((answer, i) => (
+            <span
+              key={i}
+              className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm font-bold ${answer.correct ? 'bg-[#66bb6a]/20 text-[#66bb6a]' : 'bg-[#ef5350]/20 text-[#ef5350]'}`}
+              title={answer.correct ? undefined : `${withObjectParticle(vocab.words[answer.hit].word)} 맞췄어요`}
+            >
+              {answer.correct ? <Check className="w-3.5 h-3.5" /> : <X className="w-3.5 h-3.5" />}
+              {vocab.words[answer.target].word}
+            </span>
+          ))}
+        </div>
+
+        {results.length > 0 && (
+          <table className="w-full min-w-[320px] text-left text-sm">
+            <thead className="text-[#757575]">
+              <tr><th className="py-1">단어</th><th>뜻</th><th className="text-right">맞춤</th></tr>
+            </thead>
+            <tbody>
+              {results.map(r => (
+                <tr key={r.color} className="border-t border-white/5">
+                  <td className="py-1 font-bold text-white">{vocab.words[r.color].word}</td>
+                  <td className="text-[#c4c7c5]">{vocab.words[r.color].translation}</td>
+                  <td className={`text-right font-bold ${r.correct === r.asked ? 'text-[#66bb6a]' : 'text-[#ffa726]'}`}>{r.correct}/{r.asked}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex gap-3 mt-2">
+          <button
+            onClick={onPlayAgain}
+            className="flex items-center gap-2 bg-[#42a5f5] hover:bg-[#64b5f6] text-white font-bold px-8 py-4 rounded-full transition-colors"
+          >
+            <RotateCcw className="w-5 h-5" />
+            다시 하기
+          </button>
+          <button
+            onClick={onExit}
+            className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-bold px-8 py-4 rounded-full transition-colors"
+          >
+            <Palette className="w-5 h-5" />
+            색깔 맞추기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizResults;
@@ -0,0 +1,324 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BUBBLE_RADIUS, getBubblePos, getCeilingY } from '../engine/grid';
+import { TICK_MS } from '../engine/gameEngine';
+import { GameRecording, Replay, createReplay } from '../engine/recording';
+import { loadRecordingFromFile } from '../services/recordingService';
+import { downloadJson, fileTimestamp } from '../services/fileService';
+import { COLOR_CONFIG, drawBubble } from './bubbleRenderer';
+import { Film, X, Play, Pause, StepForward, SkipForward, RotateCcw, Download, Upload, AlertTriangle, Lightbulb } from 'lucide-react';
+
+interface ReplayViewerProps {
+  initial: GameRecording | null; // The game being played, if it has started
+  onClose: () => void;
+}
+
+const SPEEDS = [1, 2, 4];
+const MAX_TICKS_PER_FRAME = 16;
+const MAX_SKIP_TICKS = 5000; // "Next shot" gives up after this many ticks
+
+const drawReplay = (ctx: CanvasRenderingContext2D, replay: Replay, recording: GameRecording) => {
+  const { engine } = replay;
+  const { state } = engine;
+  const { width, height } = state;
+  const { anchor, ball } = state.slingshots[0];
+
+  ctx.fillStyle = '#121212';
+  ctx.fillRect(0, 0, width, height);
+
+  const ceilingY = getCeilingY(state.ceilingRows);
+  if (state.ceilingRows > 0) {
+    ctx.fillStyle = '#2a2a2a';
+    ctx.fillRect(0, 0, width, ceilingY);
+    ctx.fillStyle = '#616161';
+    ctx.fillRect(0, ceilingY - 4, width, 4);
+  }
+
+  ctx.save();
+  ctx.globalAlpha = 0.4;
+  ctx.setLineDash([12, 8]);
+  ctx.beginPath();
+  ctx.moveTo(0, engine.getDangerY());
+  ctx.lineTo(width, engine.getDangerY());
+  ctx.strokeStyle = '#ef5350';
+  ctx.lineWidth = 3;
+  ctx.stroke();
+  ctx.restore();
+
+  state.bubbles.forEach(b => {
+    if (!b.active && !b.isFloating) return;
+    drawBubble(ctx, b.x, b.y, BUBBLE_RADIUS - 1, b.color, recording.vocabPack, b.kind);
+  });
+
+  // Where the teacher was pointing for the upcoming shot
+  const upcoming = ball.flying ? null : recording.shots[replay.shotIndex];
+  const hint = upcoming?.hint;
+  if (hint && typeof hint.targetRow === 'number' && typeof hint.targetCol === 'number') {
+    const target = getBubblePos(hint.targetRow, hint.targetCol, width, state.ceilingRows);
+    ctx.save();
+    ctx.setLineDash([5, 5]);
+    ctx.beginPath();
+    ctx.arc(target.x, target.y, BUBBLE_RADIUS, 0, Math.PI * 2);
+    ctx.strokeStyle = hint.recommendedColor ? COLOR_CONFIG[hint.recommendedColor].hex : '#ffffff';
+    ctx.lineWidth = 4;
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Release point of the upcoming shot, then the ball as the engine has it
+  if (upcoming) {
+    ctx.save();
+    ctx.beginPath();
+    ctx.moveTo(anchor.x, anchor.y);
+    ctx.lineTo(upcoming.pos.x, upcoming.pos.y);
+    ctx.strokeStyle = 'rgba(255,255,255,0.4)';
+    ctx.lineWidth = 5;
+    ctx.lineCap = 'round';
+    ctx.stroke();
+    ctx.restore();
+    drawBubble(ctx, upcoming.pos.x, upcoming.pos.y, BUBBLE_RADIUS, upcoming.color, recording.vocabPack, upcoming.kind);
+  } else if (ball.flying) {
+    drawBubble(ctx, ball.pos.x, ball.pos.y, BUBBLE_RADIUS, ball.color, recording.vocabPack, ball.kind);
+  }
+
+  ctx.beginPath();
+  ctx.moveTo(anchor.x, height);
+  ctx.lineTo(anchor.x, anchor.y + 40);
+  ctx.lineTo(anchor.x - 40, anchor.y);
+  ctx.moveTo(anchor.x, anchor.y + 40);
+  ctx.lineTo(anchor.x + 40, anchor.y);
+  ctx.lineWidth = 10;
+  ctx.lineCap = 'round';
+  ctx.strokeStyle = '#616161';
+  ctx.stroke();
+};
+
+// Re-runs a recorded game in the engine, with no camera: for bug reports and for teachers looking back at a game
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ initial, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [recording, setRecording] = useState<GameRecording | null>(initial);
+  const replayRef = useRef<Replay | null>(initial ? createReplay(initial) : null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [, setFrame] = useState(0); // Re-renders the counters below the board
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const playingRef = useRef(playing);
+  const speedRef = useRef(speed);
+  playingRef.current = playing;
+  speedRef.current = speed;
+
+  useEffect(() => {
+    if (!recording) return;
+    let rafId = 0;
+    let last = performance.now();
+    let carry = 0;
+
+    const frame = (now: number) => {
+      const replay = replayRef.current;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (replay && canvas && ctx) {
+        if (playingRef.current) {
+          carry += (now - last) * speedRef.current;
+          let ticks = 0;
+          while (carry >= TICK_MS && ticks < MAX_TICKS_PER_FRAME) {
+            replay.tick();
+            carry -= TICK_MS;
+            ticks++;
+          }
+          carry = Math.min(carry, TICK_MS);
+          if (replay.done) setPlaying(false);
+        }
+        if (canvas.width !== replay.engine.state.width || canvas.height !== replay.engine.state.height) {
+          canvas.width = replay.engine.state.width;
+          canvas.height = replay.engine.state.height;
+        }
+        drawReplay(ctx, replay, recording);
+        setFrame(f => f + 1);
+      }
+      last = now;
+      rafId = requestAnimationFrame(frame);
+    };
+    rafId = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(rafId);
+  }, [recording]);
+
+  const restart = () => {
+    if (!recording) return;
+    replayRef.current = createReplay(recording);
+    setPlaying(false);
+  };
+
+  const stepTick = () => {
+    setPlaying(false);
+    replayRef.current?.tick();
+  };
+
+  // Runs until the next ball has been fired and everything it knocked down has landed
+  const skipToNextShot = () => {
+    const replay = replayRef.current;
+    if (!replay || replay.done) return;
+    setPlaying(false);
+    const target = replay.shotIndex + 1;
+    for (let i = 0; i < MAX_SKIP_TICKS && !replay.done; i++) {
+      replay.tick();
+      if (replay.shotIndex >= target && !replay.engine.state.slingshots[0].ball.flying && !replay.engine.state.bubbles.some(b => b.isFloating)) break;
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = await loadRecordingFromFile(file);
+    setImportErrors(result.errors);
+    if (result.recording) {
+      replayRef.current = createReplay(result.recording);
+      setRecording(result.recording);
+      setPlaying(false);
+    }
+  };
+
+  const replay = replayRef.current;
+  const state = replay?.engine.state;
+  const total = recording?.shots.length ?? 0;
+  // The shot in the air, or else the one about to be fired (the last one once the replay is over)
+  const focusIndex = replay ? Math.min(state!.slingshots[0].ball.flying ? replay.shotIndex - 1 : replay.shotIndex, total - 1) : -1;
+  const focus = recording && focusIndex >= 0 ? recording.shots[focusIndex] : null;
+  const vocab = recording?.vocabPack;
+
+  const controlClass = "flex items-center gap-2 bg-white/5 hover:bg-white/10 disabled:opacity-50 text-[#e3e3e3] font-bold text-sm px-4 py-2 rounded-full";
+
+  return (
+    <div className="absolute inset-0 z-[80] flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-full max-w-6xl max-h-[92vh] overflow-y-auto p-8 rounded-[32px] border-2 border-[#444746] shadow-2xl flex flex-col gap-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white/10 rounded-xl">
+              <Film className="w-5 h-5 text-[#42a5f5]" />
+            </div>
+            <h2 className="font-black text-xl text-white">다시 보기</h2>
+            {recording && (
+              <span className="text-sm text-[#757575]">
+                {new Date(recording.recordedAt).toLocaleString('ko-KR', { dateStyle: 'short', timeStyle: 'short' })}
+                {recording.level ? ` · ${recording.level.name}` : " · 자유 놀이"} · {recording.vocabPack.name}
+              </span>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-gray-400" title="닫기">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {recording && replay && state ? (
+          <div className="flex flex-col lg:flex-row gap-6">
+            <div className="flex-1 flex flex-col gap-3 min-w-0">
+              <canvas
+                ref={canvasRef}
+                className="w-full max-h-[60vh] object-contain rounded-2xl border-2 border-[#444746]"
+                style={{ transform: 'scaleX(-1)' }}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <button onClick={() => setPlaying(!playing)} disabled={replay.done} className="flex items-center gap-2 bg-[#42a5f5] hover:bg-[#64b5f6] disabled:opacity-50 text-white font-bold text-sm px-5 py-2 rounded-full">
+                  {playing ? <><Pause className="w-4 h-4" /> 멈추기</> : <><Play className="w-4 h-4 fill-current" /> 재생</>}
+                </button>
+                <button onClick={stepTick} disabled={replay.done} className={controlClass} title="한 프레임씩">
+                  <StepForward className="w-4 h-4" /> 한 프레임
+                </button>
+                <button onClick={skipToNextShot} disabled={replay.done} className={controlClass}>
+                  <SkipForward className="w-4 h-4" /> 다음 구슬
+                </button>
+                <button onClick={restart} className={controlClass}>
+                  <RotateCcw className="w-4 h-4" /> 처음부터
+                </button>
+                {SPEEDS.map(s => (
+                  <button
+                    key={s}
+                    onClick={() => setSpeed(s)}
+                    className={`px-3 py-2 rounded-full text-sm font-bold ${speed === s ? 'bg-white/20 text-white' : 'bg-white/5 text-[#c4c7c5] hover:bg-white/10'}`}
+                  >
+                    {s}×
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="lg:w-[300px] flex flex-col gap-3 text-sm">
+              <div className="bg-[#252525] rounded-2xl p-4 flex flex-col gap-1">
+                <p className="text-[#c4c7c5]">구슬 <span className="font-bold text-white">{replay.shotIndex}/{total}</span></p>
+                <p className="text-[#c4c7c5]">점수 <span className="font-bold text-white">{state.score.toLocaleString()}</span></p>
+                <p className="text-[#c4c7c5]">천장 <span className="font-bold text-white">{state.ceilingRows}줄</span></p>
+                {replay.done && (
+                  <p className="font-bold text-[#66bb6a]">{state.won ? "레벨 성공으로 끝났어요" : state.gameOver ? "게임 오버로 끝났어요" : "기록이 여기까지예요"}</p>
+                )}
+              </div>
+
+              {focus && vocab && (
+                <div className="bg-[#252525] rounded-2xl p-4 flex flex-col gap-2">
+                  <p className="text-xs text-[#757575] uppercase tracking-wider font-bold">{focusIndex + 1}번째 구슬</p>
+                  <p className="font-bold" style={{ color: COLOR_CONFIG[focus.color].hex }}>
+                    {focus.kind === 'normal' ? vocab.words[focus.color].word : focus.kind === 'bomb' ? "폭탄" : "무지개"}
+                  </p>
+                  {focus.hint ? (
+                    <>
+                      <p className="flex gap-2 text-[#e3e3e3]"><Lightbulb className="w-4 h-4 text-[#fdd835] shrink-0 mt-0.5" />{focus.hint.message}</p>
+                      {focus.hint.rationale && <p className="text-xs text-[#c4c7c5]">{focus.hint.rationale}</p>}
+                      {focus.hint.recommendedColor && (
+                        <p className={`text-xs font-bold ${focus.hint.recommendedColor === focus.color ? 'text-[#66bb6a]' : 'text-[#ffa726]'}`}>
+                          {focus.hint.recommendedColor === focus.color
+                            ? "추천 단어로 쐈어요"
+                            : `추천은 ${vocab.words[focus.hint.recommendedColor].word}였어요`}
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-xs text-[#757575]">이 구슬에는 힌트가 없었어요.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-[#757575]">아직 기록된 게임이 없어요. 기록 파일을 불러올 수 있어요.</p>
+        )}
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => recording && downloadJson(`recording_${fileTimestamp()}.json`, recording)}
+            disabled={!recording}
+            className="flex items-center gap-2 bg-white/5 hover:bg-white/10 disabled:opacity-50 text-[#e3e3e3] font-bold text-sm px-5 py-3 rounded-full"
+          >
+            <Download className="w-4 h-4" />
+            파일로 내보내기
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-[#e3e3e3] font-bold text-sm px-5 py-3 rounded-full"
+          >
+            <Upload className="w-4 h-4" />
+            파일 불러오기
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+        </div>
+
+        {importErrors.length > 0 && (
+          <div className="flex gap-2 p-3 rounded-xl bg-[#ef5350]/10 border border-[#ef5350]/40">
+            <AlertTriangle className="w-4 h-4 text-[#ef5350] shrink-0 mt-0.5" />
+            <ul className="text-xs text-[#ef9a9a] space-y-1">
+              {importErrors.map((err, i) => <li key={i}>{err}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { BubbleColor, VocabPack } from '../types';
+import { ShotQueue, canSwapShotQueue } from '../engine/shotQueue';
+import { COLOR_CONFIG, adjustColor } from './bubbleRenderer';
+import { ArrowLeftRight } from 'lucide-react';
+
+interface ShotQueueBarProps {
+  queue: ShotQueue;
+  vocab: VocabPack;
+  onSwap: () => void;
+}
+
+const QueueBall: React.FC<{ color: BubbleColor, word: string, size: string }> = ({ color, word, size }) => {
+  const config = COLOR_CONFIG[color];
+  return (
+    <div
+      className={`relative ${size} rounded-full flex items-center justify-center shrink-0`}
+      style={{
+        background: `radial-gradient(circle at 35% 35%, ${config.hex}, ${adjustColor(config.hex, -60)})`,
+        boxShadow: `0 0 20px ${config.hex}66, inset 0 -4px 4px rgba(0,0,0,0.3)`
+      }}
+    >
+      <div className="absolute top-2 left-3 w-5 h-3 bg-white/40 rounded-full transform -rotate-45 filter blur-[1px]" />
+      <span className="z-10 text-xs font-bold" style={{ color: config.textColor }}>{word}</span>
+    </div>
+  );
+};
+
+// Queue mode's stand-in for the word picker: the ball being fired, the one after it, and the swap
+const ShotQueueBar: React.FC<ShotQueueBarProps> = ({ queue, vocab, onSwap }) => {
+  const canSwap = canSwapShotQueue(queue);
+  return (
+    <div className="flex items-center gap-4">
+      <div className="flex flex-col items-center gap-1">
+        <QueueBall color={queue.current} word={vocab.words[queue.current].word} size="w-16 h-16 ring-4 ring-white/50" />
+        <span className="text-[10px] font-bold text-[#c4c7c5]">지금</span>
+      </div>
+      <button
+        onClick={onSwap}
+        disabled={!canSwap}
+        className="flex items-center gap-1.5 px-3 py-2 rounded-full bg-white/5 hover:bg-white/10 disabled:opacity-40 text-[#e3e3e3] text-xs font-bold whitespace-nowrap"
+        title={queue.swapped ? "이번 차례에는 이미 바꿨어요" : "지금 구슬과 다음 구슬 바꾸기"}
+      >
+        <ArrowLeftRight className="w-4 h-4" />
+        바꾸기
+      </button>
+      <div className="flex flex-col items-center gap-1 opacity-80">
+        <QueueBall color={queue.next} word={vocab.words[queue.next].word} size="w-12 h-12" />
+        <span className="text-[10px] font-bold text-[#c4c7c5]">다음</span>
+      </div>
+    </div>
+  );
+};
+
+export default ShotQueueBar;
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ShotScore } from '../engine/scoring';
+import { Flame } from 'lucide-react';
+
+interface ShotScoreHudProps {
+  combo: number; // Current combo (0 once a shot misses)
+  lastShot: ShotScore | null; // Breakdown of the last shot that scored
+}
+
+const ScoreLine: React.FC<{ label: string, points: number }> = ({ label, points }) => (
+  <div className="flex items-center justify-between gap-3 text-sm">
+    <span className="text-[#c4c7c5]">{label}</span>
+    <span className="font-bold text-white">+{points.toLocaleString()}</span>
+  </div>
+);
+
+// Under the score card: the running combo and where the last shot's points came from
+const ShotScoreHud: React.FC<ShotScoreHudProps> = ({ combo, lastShot }) => (
+  <div className="mt-3 bg-[#1e1e1e] p-5 rounded-[24px] border-2 border-[#444746] shadow-2xl min-w-[200px] max-w-[260px] flex flex-col gap-1.5">
+    <p className={`flex items-center gap-2 text-sm font-bold ${combo >= 2 ? 'text-[#ffa726]' : 'text-[#757575]'}`}>
+      <Flame className="w-4 h-4" /> {combo >= 2 ? `${combo}연속!` : "연속 없음"}
+    </p>
+    {lastShot && (
+      <>
+        <p className="text-xs text-[#757575] uppercase tracking-wider font-bold mt-1">지난 구슬</p>
+        <ScoreLine label="터뜨리기" points={lastShot.match} />
+        {lastShot.drop > 0 && <ScoreLine label="떨어뜨리기" points={lastShot.drop} />}
+        {lastShot.comboBonus > 0 && <ScoreLine label={`${lastShot.combo}연속 보너스`} points={lastShot.comboBonus} />}
+        {lastShot.clearBonus > 0 && <ScoreLine label="모두 없애기" points={lastShot.clearBonus} />}
+      </>
+    )}
+  </div>
+);
+
+export default ShotScoreHud;
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { BubbleColor, VocabPack } from '../types';
+import { COLOR_KEYS } from '../engine/grid';
+import { VersusState, canVersusShoot, getVersusWordCount } from '../engine/versus';
+import { COLOR_CONFIG, PLAYER_HEX, adjustColor } from './bubbleRenderer';
+import { Users } from 'lucide-react';
+
+interface VersusHudProps {
+  versus: VersusState;
+}
+
+// Takes the score card's place: both players' points and balls, and whose turn it is
+const VersusHud: React.FC<VersusHudProps> = ({ versus }) => (
+  <div className="bg-[#1e1e1e] p-5 rounded-[32px] border-2 border-[#444746] shadow-2xl flex flex-col gap-3 min-w-[240px]">
+    <p className="flex items-center gap-2 text-sm text-[#c4c7c5] uppercase tracking-wider font-bold">
+      <Users className="w-4 h-4" /> 둘이서 · {versus.mode === 'turns' ? "차례대로" : "동시에"}
+    </p>
+    {versus.players.map((player, i) => {
+      const active = versus.mode === 'turns' && canVersusShoot(versus, i);
+      return (
+        <div
+          key={i}
+          className={`flex items-center gap-4 px-4 py-3 rounded-[24px] border-2 ${active ? '' : 'border-transparent'}`}
+          style={{ borderColor: active ? PLAYER_HEX[i] : undefined, background: `${PLAYER_HEX[i]}14` }}
+        >
+          <span className="text-2xl font-black" style={{ color: PLAYER_HEX[i] }}>{i + 1}P</span>
+          <div className="flex-1">
+            <p className="text-3xl font-black text-white">{player.score.toLocaleString()}</p>
+            <p className="text-xs font-bold text-[#757575]">
+              남은 구슬 {player.shotsLeft}개 · 단어 {getVersusWordCount(player)}개
+            </p>
+          </div>
+          {active && <span className="text-xs font-black" style={{ color: PLAYER_HEX[i] }}>차례!</span>}
+        </div>
+      );
+    })}
+  </div>
+);
+
+interface VersusColorBarProps {
+  versus: VersusState;
+  colors: BubbleColor[]; // Words still on the board
+  vocab: VocabPack;
+  onPick: (player: number, color: BubbleColor) => void;
+}
+
+// Two word pickers in place of the single one: 1P on the left of the screen, 2P on the right,
+// matching the slingshots once the canvas is mirrored
+export const VersusColorBar: React.FC<VersusColorBarProps> = ({ versus, colors, vocab, onPick }) => (
+  <div className="absolute bottom-8 inset-x-0 z-40 px-8 flex justify-between gap-4 pointer-events-none">
+    {versus.players.map((player, i) => (
+      <div
+        key={i}
+        className="pointer-events-auto bg-[#1e1e1e]/90 backdrop-blur px-5 py-4 rounded-[40px] border-2 shadow-2xl flex items-center gap-3 overflow-x-auto max-w-[48%]"
+        style={{ borderColor: PLAYER_HEX[i] }}
+      >
+        <span className="text-lg font-black mr-1" style={{ color: PLAYER_HEX[i] }}>{i + 1}P</span>
+        {colors.length === 0 ? (
+          <p className="text-sm text-gray-500">공 없음</p>
+        ) : COLOR_KEYS.filter(c => colors.includes(c)).map(color => {
+          const isSelected = player.color === color;
+          const config = COLOR_CONFIG[color];
+          return (
+            <button
+              key={color}
+              onClick={() => onPick(i, color)}
+              className={`relative w-12 h-12 rounded-full transition-all duration-300 transform flex items-center justify-center shrink-0
+                ${isSelected ? 'scale-110 ring-4 ring-white/50 z-10' : 'opacity-80 hover:opacity-100 hover:scale-105'}
+              `}
+              style={{
+                background: `radial-gradient(circle at 35% 35%, ${config.hex}, ${adjustColor(config.hex, -60)})`,
+                boxShadow: isSelected
+                  ? `0 0 20px ${config.hex}, inset 0 -4px 4px rgba(0,0,0,0.3)`
+                  : '0 4px 6px rgba(0,0,0,0.3), inset 0 -4px 4px rgba(0,0,0,0.3)'
+              }}
+            >
+              <span className="z-10 text-[10px] font-bold" style={{ color: config.textColor }}>{vocab.words[color].word}</span>
+            </button>
+          );
+        })}
+      </div>
+    ))}
+  </div>
+);
+
+export default VersusHud;
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { VocabPack } from '../types';
+import { COLOR_KEYS } from '../engine/grid';
+import { VersusEnding, VersusState, getVersusWinner, getVersusWordCount } from '../engine/versus';
+import { PLAYER_HEX } from './bubbleRenderer';
+import { Users, RotateCcw, User, Trophy } from 'lucide-react';
+
+interface VersusResultsProps {
+  versus: VersusState;
+  vocab: VocabPack;
+  onPlayAgain: () => void;
+  onExit: () => void; // Back to playing alone
+}
+
+const ENDING_TEXT: Record<VersusEnding, string> = {
+  shots: "구슬을 다 썼어요.",
+  cleared: "모두 없앴어요!",
+  danger: "구슬이 빨간 선에 닿아서 일찍 끝났어요."
+};
+
+const VersusResults: React.FC<VersusResultsProps> = ({ versus, vocab, onPlayAgain, onExit }) => {
+  const winner = getVersusWinner(versus);
+  const words = COLOR_KEYS.filter(c => versus.players.some(p => p.pops[c]));
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/70 backdrop-blur-sm z-[70]">
+      <div
+        className="bg-[#1e1e1e] p-10 rounded-[32px] border-2 shadow-2xl flex flex-col items-center gap-4 max-h-[90vh] overflow-y-auto"
+        style={{ borderColor: winner === null ? '#444746' : PLAYER_HEX[winner] }}
+      >
+        {winner === null
+          ? <Users className="w-14 h-14 text-[#c4c7c5]" />
+          : <Trophy className="w-14 h-14" style={{ color: PLAYER_HEX[winner] }} />}
+        <h2 className="text-4xl font-black text-white">
+          {winner === null ? "비겼어요!" : `${winner + 1}P 승리!`}
+        </h2>
+        {versus.ending && <p className="text-[#c4c7c5] text-lg">{ENDING_TEXT[versus.ending]}</p>}
+
+        {/* Side by side, 1P on the left like the slingshots */}
+        <div className="flex gap-4">
+          {versus.players.map((player, i) => (
+            <div
+              key={i}
+              className="flex flex-col items-center px-8 py-4 rounded-[24px] border-2 min-w-[160px]"
+              style={{ borderColor: PLAYER_HEX[i], background: `${PLAYER_HEX[i]}14` }}
+            >
+              <span className="text-xl font-black" style={{ color: PLAYER_HEX[i] }}>{i + 1}P</span>
+              <span className="text-4xl font-black text-white">{player.score.toLocaleString()}점</span>
+              <span className="text-sm font-bold text-[#c4c7c5]">단어 {getVersusWordCount(player)}개</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Words popped per player */}
+        {words.length > 0 && (
+          <table className="w-full min-w-[320px] text-left text-sm">
+            <thead className="text-[#757575]">
+              <tr>
+                <th className="py-1">단어</th>
+                <th>뜻</th>
+                {versus.players.map((_, i) => (
+                  <th key={i} className="text-right" style={{ color: PLAYER_HEX[i] }}>{i + 1}P</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {words.map(color => (
+                <tr key={color} className="border-t border-white/5">
+                  <td className="py-1 font-bold text-white">{vocab.words[color].word}</td>
+                  <td className="text-[#c4c7c5]">{vocab.words[color].translation}</td>
+                  {versus.players.map((player, i) => (
+                    <td key={i} className="text-right font-bold text-white">{player.pops[color] ?? 0}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex gap-3 mt-2">
+          <button
+            onClick={onPlayAgain}
+            className="flex items-center gap-2 bg-[#42a5f5] hover:bg-[#64b5f6] text-white font-bold px-8 py-4 rounded-full transition-colors"
+          >
+            <RotateCcw className="w-5 h-5" />
+            다시 하기
+          </button>
+          <button
+            onClick={onExit}
+            className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-bold px-8 py-4 rounded-full transition-colors"
+          >
+            <User className="w-5 h-5" />
+            혼자 하기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersusResults;
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { VocabPack } from '../types';
+import { COLOR_KEYS } from '../engine/grid';
+import { loadVocabPackFromFile } from '../services/vocabService';
+import { BookOpen, Upload, X, AlertTriangle, Check } from 'lucide-react';
+
+interface VocabPackPickerProps {
+  packs: VocabPack[];
+  activePackId: string;
+  onSelect: (pack: VocabPack) => void;
+  onImport: (pack: VocabPack) => void;
+  onClose: () => void;
+}
+
+const VocabPackPicker: React.FC<VocabPackPickerProps> = ({ packs, activePackId, onSelect, onImport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file after fixing it
+    if (!file) return;
+
+    const { pack, errors } = await loadVocabPackFromFile(file);
+    setImportErrors(errors);
+    if (pack) onImport(pack);
+  };
+
+  return (
+    <div className="absolute inset-0 z-[80] flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-full max-w-2xl max-h-[80vh] overflow-y-auto p-8 rounded-[32px] border-2 border-[#444746] shadow-2xl flex flex-col gap-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white/10 rounded-xl">
+              <BookOpen className="w-5 h-5 text-[#42a5f5]" />
+            </div>
+            <h2 className="font-black text-xl text-white">단어 꾸러미 고르기</h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 hover:bg-white/10 text-gray-400" title="닫기">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {packs.map(pack => {
+            const isActive = pack.id === activePackId;
+            return (
+              <button
+                key={pack.id}
+                onClick={() => onSelect(pack)}
+                className={`text-left p-4 rounded-2xl border-2 transition-colors ${isActive ? 'border-[#42a5f5] bg-[#42a5f5]/10' : 'border-white/5 bg-[#252525] hover:border-white/20'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <p className="font-bold text-white">{pack.name}</p>
+                  {isActive && <Check className="w-4 h-4 text-[#42a5f5]" />}
+                </div>
+                {pack.description && <p className="text-xs text-[#c4c7c5] mt-1">{pack.description}</p>}
+                <p className="text-sm text-[#e3e3e3] mt-2 break-keep">
+                  {COLOR_KEYS.map(c => `${pack.words[c].emoji || ''}${pack.words[c].word}`).join(' · ')}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="self-start flex items-center gap-2 bg-white/5 hover:bg-white/10 text-[#e3e3e3] font-bold text-sm px-5 py-3 rounded-full"
+          >
+            <Upload className="w-4 h-4" />
+            JSON 꾸러미 불러오기
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+
+          {importErrors.length > 0 && (
+            <div className="flex gap-2 p-3 rounded-xl bg-[#ef5350]/10 border border-[#ef5350]/40">
+              <AlertTriangle className="w-4 h-4 text-[#ef5350] shrink-0 mt-0.5" />
+              <ul className="text-xs text-[#ef9a9a] space-y-1">
+                {importErrors.map((err, i) => <li key={i}>{err}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VocabPackPicker;
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BubbleColor, BubbleKind, VocabPack, VocabWord } from '../types';
+
+// Material Design Colors (words come from the active vocabulary pack)
+export const COLOR_CONFIG: Record<BubbleColor, { hex: string, textColor: string }> = {
+  red:    { hex: '#ef5350', textColor: '#ffffff' },
+  blue:   { hex: '#42a5f5', textColor: '#ffffff' },
+  green:  { hex: '#66bb6a', textColor: '#ffffff' },
+  yellow: { hex: '#ffee58', textColor: '#000000' },
+  purple: { hex: '#ab47bc', textColor: '#ffffff' },
+  orange: { hex: '#ffa726', textColor: '#ffffff' }
+};
+
+// The listening quiz ball: showing its colour would give the answer away
+export const MYSTERY_BALL_CONFIG = { hex: '#9e9e9e', textColor: '#ffffff' };
+
+// Two-player mode: 1P and 2P on their slingshot handles, score cards and word pickers
+export const PLAYER_HEX = ['#42a5f5', '#ffa726'];
+
+const STONE_HEX = '#8d8478';
+const RAINBOW_HEX = '#ffffff';
+
+// Particle colour for a popped or landed bubble
+export const getBubbleHex = (color: BubbleColor, kind: BubbleKind = 'normal') =>
+  kind === 'stone' ? STONE_HEX : kind === 'rainbow' ? RAINBOW_HEX : COLOR_CONFIG[color].hex;
+
+// Color Helper for Gradients
+export const adjustColor = (color: string, amount: number) => {
+    const hex = color.replace('#', '');
+    const r = Math.max(0, Math.min(255, parseInt(hex.substring(0, 2), 16) + amount));
+    const g = Math.max(0, Math.min(255, parseInt(hex.substring(2, 4), 16) + amount));
+    const b = Math.max(0, Math.min(255, parseInt(hex.substring(4, 6), 16) + amount));
+    
+    const componentToHex = (c: number) => {
+        const hex = c.toString(16);
+        return hex.length === 1 ? "0" + hex : hex;
+    };
+    
+    return "#" + componentToHex(r) + componentToHex(g) + componentToHex(b);
+};
+
+// Matte grey rock with a couple of cracks; no word, it never matches
+const drawStone = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number) => {
+  const grad = ctx.createRadialGradient(x - radius * 0.3, y - radius * 0.3, radius * 0.1, x, y, radius);
+  grad.addColorStop(0, adjustColor(STONE_HEX, 40));
+  grad.addColorStop(1, adjustColor(STONE_HEX, -70));
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fillStyle = grad;
+  ctx.fill();
+  ctx.strokeStyle = adjustColor(STONE_HEX, -90);
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(x - radius * 0.5, y - radius * 0.2);
+  ctx.lineTo(x - radius * 0.1, y);
+  ctx.lineTo(x - radius * 0.2, y + radius * 0.45);
+  ctx.moveTo(x + radius * 0.15, y - radius * 0.55);
+  ctx.lineTo(x + radius * 0.35, y - radius * 0.1);
+  ctx.lineTo(x + radius * 0.6, y + radius * 0.05);
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.35)';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+};
+
+// One slice per word colour with a glossy highlight; no word, it matches anything
+const drawRainbow = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number) => {
+  const colors = Object.values(COLOR_CONFIG);
+  const slice = (Math.PI * 2) / colors.length;
+  colors.forEach((config, i) => {
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.arc(x, y, radius, i * slice - Math.PI / 2, (i + 1) * slice - Math.PI / 2);
+    ctx.closePath();
+    ctx.fillStyle = config.hex;
+    ctx.fill();
+  });
+
+  const shine = ctx.createRadialGradient(x - radius * 0.3, y - radius * 0.3, radius * 0.1, x, y, radius);
+  shine.addColorStop(0, 'rgba(255, 255, 255, 0.9)');
+  shine.addColorStop(0.35, 'rgba(255, 255, 255, 0.15)');
+  shine.addColorStop(1, 'rgba(0, 0, 0, 0.35)');
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fillStyle = shine;
+  ctx.fill();
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+};
+
+// Dark casing ring and a lit fuse on top of a normal word bubble
+const drawBombMarks = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number) => {
+  ctx.beginPath();
+  ctx.arc(x, y, radius - 2, 0, Math.PI * 2);
+  ctx.strokeStyle = '#212121';
+  ctx.lineWidth = 4;
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(x, y - radius);
+  ctx.quadraticCurveTo(x + radius * 0.2, y - radius * 1.3, x + radius * 0.4, y - radius * 1.2);
+  ctx.strokeStyle = '#5d4037';
+  ctx.lineWidth = 3;
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.arc(x + radius * 0.4, y - radius * 1.2, radius * 0.12, 0, Math.PI * 2);
+  ctx.fillStyle = '#ffca28';
+  ctx.fill();
+};
+
+// Glossy word bubble, shared by the game and the level editor. colorKey null draws the quiz's mystery ball.
+// Both canvases are mirrored with CSS, so the text is flipped back here.
+export const drawBubble = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  radius: number,
+  colorKey: BubbleColor | null,
+  vocab: VocabPack,
+  kind: BubbleKind = 'normal'
+) => {
+  if (kind === 'stone') return drawStone(ctx, x, y, radius);
+  if (kind === 'rainbow') return drawRainbow(ctx, x, y, radius);
+
+  const config = colorKey ? COLOR_CONFIG[colorKey] : MYSTERY_BALL_CONFIG;
+  const entry: Pick<VocabWord, 'word' | 'emoji'> = colorKey ? vocab.words[colorKey] : { word: "?" };
+  const baseColor = config.hex;
+  
+  // Main Sphere Gradient
+  const grad = ctx.createRadialGradient(x - radius * 0.3, y - radius * 0.3, radius * 0.1, x, y, radius);
+  grad.addColorStop(0, '#ffffff');             // Specular highlight center (brightest)
+  grad.addColorStop(0.2, baseColor);           // Main color body
+  grad.addColorStop(1, adjustColor(baseColor, -60)); // Shadowed edge (darkest)
+
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fillStyle = grad;
+  ctx.fill();
+
+  // Subtle Outline
+  ctx.strokeStyle = adjustColor(baseColor, -80);
+  ctx.lineWidth = 1;
+  ctx.stroke();
+  
+  // Secondary "Glossy" Highlight
+  ctx.beginPath();
+  ctx.ellipse(x - radius * 0.3, y - radius * 0.35, radius * 0.25, radius * 0.15, Math.PI / 4, 0, Math.PI * 2);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+  ctx.fill();
+  
+  // Draw Text (Hangul Word) with Horizontal Flip fix
+  // Because the canvas has scaleX(-1) in CSS (to mirror webcam), normal text appears mirrored.
+  // We must scale(-1, 1) locally to flip it back for the viewer.
+  ctx.save();
+  ctx.translate(x, y); // Move to bubble center
+  ctx.scale(-1, 1);    // Flip horizontally
+  ctx.fillStyle = config.textColor;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.shadowColor = 'rgba(0,0,0,0.5)';
+  ctx.shadowBlur = 2;
+  if (entry.emoji) {
+      // Emoji on top, word below so both fit inside the bubble
+      ctx.font = `${Math.round(radius * 0.5)}px sans-serif`;
+      ctx.fillText(entry.emoji, 0, -radius * 0.3);
+      ctx.font = `bold ${entry.word.length > 3 ? 11 : 14}px Roboto, sans-serif`;
+      ctx.fillText(entry.word, 0, radius * 0.35);
+  } else {
+      ctx.font = `bold ${entry.word.length > 3 ? 13 : 16}px Roboto, sans-serif`;
+      ctx.fillText(entry.word, 0, 1); // Draw at (0, 0) relative to translation
+  }
+  ctx.restore();
+
+  if (kind === 'bomb') drawBombMarks(ctx, x, y, radius);
+};
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { createRng } from './rng';
+import { createGameEngine, EngineEvent, GameEngine, TICK_MS } from './gameEngine';
+import { getMatchableColors } from './grid';
+import { MAX_FLIGHT_MS } from './physics';
+import { LevelDefinition } from '../types';
+
+describe('createRng', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRng(1234);
+    const b = createRng(1234);
+    const items = ['a', 'b', 'c', 'd'];
+    for (let i = 0; i < 100; i++) {
+      expect(a.next()).toBe(b.next());
+      expect(a.pick(items)).toBe(b.pick(items));
+      expect(a.pickWeighted(items, [1, 2, 3, 4])).toBe(b.pickWeighted(items, [1, 2, 3, 4]));
+    }
+  });
+
+  it('gives a different sequence for another seed', () => {
+    const a = createRng(1);
+    const b = createRng(2);
+    expect(Array.from({ length: 5 }, a.next)).not.toEqual(Array.from({ length: 5 }, b.next));
+  });
+});
+
+// Fires a fixed series of pulls, waiting for each ball to settle; frame lengths vary like a real display
+const playScript = (engine: GameEngine) => {
+  const events: EngineEvent[] = [];
+  const frames = [TICK_MS, TICK_MS * 0.5, TICK_MS * 2.3, TICK_MS * 1.1];
+  let frame = 0;
+  for (let shot = 0; shot < 12 && !engine.state.gameOver; shot++) {
+    const { anchor } = engine.state.slingshots[0];
+    engine.aim({ x: anchor.x + ((shot * 37) % 160) - 80, y: anchor.y + 120 });
+    engine.release(getMatchableColors(engine.state.bubbles)[0] ?? 'red');
+    for (let i = 0; i < 400 && engine.state.slingshots[0].ball.flying; i++) {
+      events.push(...engine.step(frames[frame++ % frames.length]));
+    }
+  }
+  return events;
+};
+
+describe('GameEngine', () => {
+  it('deals the same board from the same seed', () => {
+    const a = createGameEngine({ width: 1280, height: 800, seed: 99 });
+    const b = createGameEngine({ width: 1280, height: 800, seed: 99 });
+    expect(a.state.bubbles).toEqual(b.state.bubbles);
+  });
+
+  it('plays the same game from the same seed and input', () => {
+    const a = createGameEngine({ width: 1280, height: 800, seed: 7 });
+    const b = createGameEngine({ width: 1280, height: 800, seed: 7 });
+    const eventsA = playScript(a);
+    const eventsB = playScript(b);
+
+    expect(eventsA.length).toBeGreaterThan(0);
+    expect(eventsB).toEqual(eventsA);
+    expect(b.saveBoard()).toEqual(a.saveBoard());
+    expect(b.state.score).toBe(a.state.score);
+  });
+
+  it('replays a saved board the same way', () => {
+    const a = createGameEngine({ width: 1280, height: 800, seed: 21 });
+    const b = createGameEngine({ width: 1280, height: 800 });
+    b.restoreBoard(a.saveBoard());
+    expect(playScript(b)).toEqual(playScript(a));
+    expect(b.saveBoard()).toEqual(a.saveBoard());
+  });
+
+  it('counts a ball that never lands as a lost miss, ending a level on its last shot', () => {
+    const level: LevelDefinition = {
+      id: 'one-shot',
+      name: 'One shot',
+      layout: ['rrbb'],
+      colors: ['red', 'blue'],
+      shotLimit: 1,
+      goals: [{ type: 'clear' }],
+      stars: [0, 100, 200]
+    };
+    const engine = createGameEngine({ width: 1280, height: 800, seed: 3, level });
+    // Straight sideways: bounces between the walls forever
+    engine.launch({ x: 20, y: 0 }, 'red', 'normal', { x: 640, y: 700 });
+
+    const events: EngineEvent[] = [];
+    for (let i = 0; i < Math.ceil(MAX_FLIGHT_MS / TICK_MS) + 2; i++) events.push(...engine.step(TICK_MS));
+
+    expect(events).toContainEqual({ type: 'lost', player: 0 });
+    expect(events).toContainEqual({ type: 'gameover', reason: 'shots' });
+    expect(engine.state.slingshots[0].ball.flying).toBe(false);
+    expect(engine.state.missedShots).toBe(1);
+    expect(engine.state.gameOver).toBe(true);
+  });
+});
@@ -0,0 +1,588 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Point, Bubble, BubbleColor, BubbleKind, TargetCandidate, BoardSnapshot, LevelDefinition, SpecialShots } from '../types';
+import { createRng, randomSeed, Rng } from './rng';
+import {
+  BUBBLE_RADIUS, ROW_HEIGHT, GRID_ROWS, COLLISION_DIST, COLOR_KEYS,
+  generateGrid, getBubblePos, getCeilingY, getLowestRow, getMatchableColors, findSnapCell, resolveShot,
+  ShotResolution, GridCell, ColorWeights
+} from './grid';
+import { getAllReachableClusters, findShotPath, ShotPath } from './reachability';
+import { generateLevelGrid, addPopCounts, getGoalProgress, isLevelWon, PopCounts } from './level';
+import { nextCombo, scoreShot, ShotScore } from './scoring';
+import {
+  SLINGSHOT_BOTTOM_OFFSET, MAX_FLIGHT_MS, clampPull, getLaunchVelocity, advanceBall, simulateFlight, FlightSimulation
+} from './physics';
+
+// Fixed simulation tick: step(dt) always advances in whole ticks so runs are reproducible
+export const TICK_MS = 1000 / 30;
+const MAX_TICKS_PER_STEP = 4; // Don't try to catch up after a long stall (tab in background)
+
+// Ceiling Pressure: the grid moves down one row every N misses or N seconds
+export const CEILING_DROP_MISSES = 5;
+export const CEILING_DROP_INTERVAL_MS = 45000;
+export const DANGER_LINE_OFFSET = 90; // Distance above the slingshot anchor
+
+export interface CeilingRules {
+  dropMisses: number; // 0 = never
+  dropIntervalMs: number; // 0 = never
+}
+
+// Free play uses the defaults; a level may speed the ceiling up or switch it off
+export const getCeilingRules = (level: LevelDefinition | null): CeilingRules => ({
+  dropMisses: level?.ceiling?.dropMisses ?? CEILING_DROP_MISSES,
+  dropIntervalMs: level?.ceiling?.dropIntervalMs ?? CEILING_DROP_INTERVAL_MS
+});
+
+// Most special balls of each kind the player can hold at once
+export const MAX_SPECIAL_SHOTS = 3;
+
+export const DROP_GRAVITY = 0.6;
+const BALL_RETURN_EASE = 0.15;
+
+export interface Ball {
+  pos: Point;
+  vel: Point;
+  color: BubbleColor;
+  kind: BubbleKind; // 'normal', or a special ball from the pocket
+  held: boolean; // Being pulled back by the player
+  flying: boolean;
+  flightTime: number;
+}
+
+export interface Slingshot {
+  anchor: Point;
+  ball: Ball;
+  combo: number; // This player's popping shots in a row
+}
+
+export interface GameState {
+  width: number;
+  height: number;
+  seed: number;
+  boardVersion: number; // Bumped whenever the grid changes, so stale hints can be spotted
+  bubbles: Bubble[];
+  score: number;
+  shotCount: number;
+  ceilingRows: number;
+  missedShots: number;
+  ceilingTimer: number;
+  gameOver: boolean; // Also set once a level is won, so play stops
+  level: LevelDefinition | null; // null = endless free play on a random board
+  shotsLeft: number | null; // null = no shot limit
+  popCounts: PopCounts;
+  specialShots: SpecialShots;
+  won: boolean;
+  slingshots: Slingshot[]; // One per player; single-player games have one in the middle
+}
+
+export type EngineEvent =
+  | { type: 'shot'; player: number; resolution: ShotResolution; hit: Bubble | null; score: ShotScore } // Ball snapped into the grid; hit = bubble it touched (null for the ceiling)
+  | { type: 'lost'; player: number } // Ball left through the bottom of the screen or never landed
+  | { type: 'landed'; bubble: Bubble } // A dropped bubble reached the floor
+  | { type: 'ceiling'; ceilingRows: number; cause: 'misses' | 'timer' }
+  | { type: 'won' } // Every goal of the level is met
+  | { type: 'gameover'; reason: 'danger' | 'shots' };
+
+// Everything needed to put a game back on screen later; pixel positions are rebuilt for the new viewport
+export interface SavedBoard {
+  seed: number;
+  bubbles: Pick<Bubble, 'id' | 'row' | 'col' | 'color' | 'kind'>[]; // Active bubbles only
+  score: number;
+  combo?: number; // First player's combo
+  shotCount: number;
+  ceilingRows: number;
+  missedShots: number;
+  ceilingTimer: number;
+  levelId?: string; // Missing for free play
+  shotsLeft?: number | null;
+  popCounts?: PopCounts;
+  specialShots?: SpecialShots;
+}
+
+// Where the ball being pulled back would go if released right now
+export interface ShotPreview {
+  flight: FlightSimulation;
+  hit: Bubble | null; // First bubble it touches (null for the ceiling or a miss)
+  cell: GridCell | null; // Where it would snap, null if it never lands
+}
+
+export interface StepOptions {
+  holdCeiling?: boolean; // Freeze the ceiling clock (e.g. while the player is waiting on a hint)
+}
+
+export interface EngineConfig {
+  width: number;
+  height: number;
+  seed?: number;
+  colorWeights?: ColorWeights; // Bias for new grids, e.g. toward words the learner needs to practise
+  level?: LevelDefinition | null;
+  players?: number; // Slingshots: 1 (default) or 2
+}
+
+export interface GameEngine {
+  readonly state: GameState;
+  reset: (seed?: number) => void;
+  setColorWeights: (weights: ColorWeights | undefined) => void; // Applies from the next reset
+  setLevel: (level: LevelDefinition | null) => void; // Applies from the next reset or restore
+  setPlayers: (players: number) => void; // Applies from the next reset or restore
+  resize: (width: number, height: number) => number;
+  // `player` picks the slingshot; it is always 0 in a single-player game
+  aim: (pos: Point, player?: number) => void;
+  cancelAim: (player?: number) => void;
+  release: (color: BubbleColor, kind?: BubbleKind, player?: number) => boolean;
+  launch: (vel: Point, color: BubbleColor, kind?: BubbleKind, from?: Point, player?: number) => void;
+  dropCeiling: () => EngineEvent[]; // Lowers the ceiling one row right away, as its clock would
+  step: (dt: number, options?: StepOptions) => EngineEvent[];
+  getDangerY: () => number;
+  getLastSafeRow: () => number;
+  getReachableClusters: () => TargetCandidate[];
+  getSnapshot: (criticalRowMargin: number, heldColor?: BubbleColor) => BoardSnapshot;
+  previewShot: (player?: number) => ShotPreview | null;
+  planShot: (row: number, col: number) => ShotPath | null;
+  saveBoard: () => SavedBoard;
+  restoreBoard: (saved: SavedBoard) => void;
+}
+
+// One slingshot sits in the middle. With two, the first is on the right of the canvas,
+// which is the player's left once the canvas is mirrored for the camera.
+const getAnchor = (width: number, height: number, player: number, players: number): Point => ({
+  x: players === 1 ? width / 2 : width * (player === 0 ? 0.7 : 0.3),
+  y: height - SLINGSHOT_BOTTOM_OFFSET
+});
+
+const createBall = (anchor: Point): Ball =>
+  ({ pos: { ...anchor }, vel: { x: 0, y: 0 }, color: 'red', kind: 'normal', held: false, flying: false, flightTime: 0 });
+
+export const createGameEngine = (config: EngineConfig): GameEngine => {
+  let rng: Rng = createRng(config.seed ?? randomSeed());
+  let accumulator = 0;
+  let colorWeights = config.colorWeights;
+  let level = config.level ?? null;
+  let players = config.players ?? 1;
+
+  const createState = (width: number, height: number, boardVersion: number): GameState => {
+    return {
+      width,
+      height,
+      seed: rng.seed,
+      boardVersion,
+      bubbles: level
+        ? generateLevelGrid(rng, width, level, colorWeights)
+        : generateGrid(rng, width, GRID_ROWS, COLOR_KEYS, colorWeights),
+      score: 0,
+      shotCount: 0,
+      ceilingRows: 0,
+      missedShots: 0,
+      ceilingTimer: 0,
+      gameOver: false,
+      level,
+      shotsLeft: level?.shotLimit ?? null,
+      popCounts: {},
+      specialShots: { bomb: 0, rainbow: 0 },
+      won: false,
+      slingshots: Array.from({ length: players }, (_, i) => {
+        const anchor = getAnchor(width, height, i, players);
+        return { anchor, ball: createBall(anchor), combo: 0 };
+      })
+    };
+  };
+
+  let state = createState(config.width, config.height, 0);
+
+  // All slingshots stand at the same height
+  const getDangerY = () => state.slingshots[0].anchor.y - DANGER_LINE_OFFSET;
+
+  // Deepest row index whose bubbles still sit fully above the danger line
+  const getLastSafeRow = () => {
+    const dangerY = getDangerY();
+    let row = 0;
+    while (getBubblePos(row + 1, 0, 0, state.ceilingRows).y + BUBBLE_RADIUS < dangerY) row++;
+    return row;
+  };
+
+  const getFlightBounds = () => ({ width: state.width, height: state.height, ceilingY: getCeilingY(state.ceilingRows) });
+
+  // Rows the snap search may use: the grid can grow down to just past the danger line
+  const getSnapRowCount = () => Math.max(GRID_ROWS + 5, getLastSafeRow() + 2);
+
+  // Closest active bubble the ball at `pos` is touching, if any
+  const findTouchedBubble = (pos: Point) => {
+    let hit: Bubble | null = null;
+    let hitDist = COLLISION_DIST;
+    for (const b of state.bubbles) {
+      if (!b.active) continue;
+      const dist = Math.hypot(pos.x - b.x, pos.y - b.y);
+      if (dist < hitDist) {
+        hit = b;
+        hitDist = dist;
+      }
+    }
+    return hit;
+  };
+
+  const resetBall = ({ anchor, ball }: Slingshot) => {
+    ball.flying = false;
+    ball.held = false;
+    ball.pos = { ...anchor };
+    ball.vel = { x: 0, y: 0 };
+  };
+
+  const checkGameOver = (events: EngineEvent[]) => {
+    if (state.gameOver) return true;
+    const dangerY = getDangerY();
+    if (state.bubbles.some(b => b.active && b.y + BUBBLE_RADIUS >= dangerY)) {
+      state.gameOver = true;
+      events.push({ type: 'gameover', reason: 'danger' });
+    }
+    return state.gameOver;
+  };
+
+  // Last ball of a limited level used up without meeting the goals
+  const checkShotsLeft = (events: EngineEvent[]) => {
+    if (state.gameOver || state.shotsLeft !== 0) return;
+    state.gameOver = true;
+    events.push({ type: 'gameover', reason: 'shots' });
+  };
+
+  const checkWon = (events: EngineEvent[]) => {
+    if (!state.level || state.gameOver) return false;
+    if (!isLevelWon(getGoalProgress(state.level.goals, state))) return false;
+    state.won = true;
+    state.gameOver = true;
+    events.push({ type: 'won' });
+    return true;
+  };
+
+  // A shot is spent as soon as the ball leaves the slingshot; a special ball also leaves the pocket.
+  // Asking for a special the pocket doesn't hold fires a normal ball.
+  const spendShot = (kind: BubbleKind): BubbleKind => {
+    if (state.shotsLeft !== null) state.shotsLeft = Math.max(0, state.shotsLeft - 1);
+    if (kind !== 'bomb' && kind !== 'rainbow') return 'normal';
+    if (state.specialShots[kind] === 0) return 'normal';
+    state.specialShots = { ...state.specialShots, [kind]: state.specialShots[kind] - 1 };
+    return kind;
+  };
+
+  // Bombs and rainbows cleared off the board go into the pocket
+  const collectSpecials = (removed: Bubble[]) => {
+    const next = { ...state.specialShots };
+    removed.forEach(b => {
+      if (b.kind === 'bomb' || b.kind === 'rainbow') next[b.kind] = Math.min(MAX_SPECIAL_SHOTS, next[b.kind] + 1);
+    });
+    state.specialShots = next;
+  };
+
+  const lowerCeiling = (cause: 'misses' | 'timer', events: EngineEvent[]) => {
+    state.ceilingRows += 1;
+    state.boardVersion += 1;
+    state.bubbles.forEach(b => {
+      if (b.active) b.y += ROW_HEIGHT;
+    });
+    state.missedShots = 0;
+    state.ceilingTimer = 0;
+    events.push({ type: 'ceiling', ceilingRows: state.ceilingRows, cause });
+    checkGameOver(events);
+  };
+
+  const registerShotResult = (popped: boolean, events: EngineEvent[]) => {
+    if (popped) return;
+    state.missedShots += 1;
+    const { dropMisses } = getCeilingRules(state.level);
+    if (dropMisses > 0 && state.missedShots >= dropMisses) {
+      lowerCeiling('misses', events);
+    }
+  };
+
+  const settleBall = (player: number, events: EngineEvent[]) => {
+    const slingshot = state.slingshots[player];
+    const { ball } = slingshot;
+    const cell = findSnapCell(state.bubbles, ball.pos, state.width, state.ceilingRows, getSnapRowCount());
+    const hit = findTouchedBubble(ball.pos);
+    state.shotCount += 1;
+
+    const resolution = resolveShot(state.bubbles, cell, ball.color, `${cell.row}-${cell.col}-s${state.shotCount}`, ball.kind);
+    state.bubbles = resolution.bubbles;
+    state.boardVersion += 1;
+    slingshot.combo = nextCombo(slingshot.combo, resolution.popped.length > 0);
+    const score = scoreShot(resolution, slingshot.combo, !state.bubbles.some(b => b.active));
+    state.score += score.total;
+    const removed = [...resolution.popped, ...resolution.dropped];
+    state.popCounts = addPopCounts(state.popCounts, removed);
+    collectSpecials(removed.filter(b => b.id !== resolution.placed.id));
+    resetBall(slingshot);
+
+    events.push({ type: 'shot', player, resolution, hit, score });
+    if (checkWon(events)) return;
+    registerShotResult(resolution.popped.length > 0, events);
+    checkGameOver(events);
+    checkShotsLeft(events);
+  };
+
+  // A ball that leaves the screen or flies too long is a spent miss, like any shot that pops nothing
+  const loseBall = (player: number, events: EngineEvent[]) => {
+    const slingshot = state.slingshots[player];
+    resetBall(slingshot);
+    slingshot.combo = 0;
+    events.push({ type: 'lost', player });
+    registerShotResult(false, events);
+    checkShotsLeft(events);
+  };
+
+  const tickFlight = (player: number, events: EngineEvent[]) => {
+    const { ball } = state.slingshots[player];
+    ball.flightTime += TICK_MS;
+    if (ball.flightTime > MAX_FLIGHT_MS) {
+      loseBall(player, events);
+      return;
+    }
+
+    const next = advanceBall(ball.pos, ball.vel, state.bubbles, {
+      width: state.width,
+      ceilingY: getCeilingY(state.ceilingRows)
+    });
+    ball.pos = next.pos;
+    ball.vel = next.vel;
+
+    if (next.collided) {
+      settleBall(player, events);
+    } else if (ball.pos.y > state.height) {
+      loseBall(player, events);
+    }
+  };
+
+  const tickFalling = (events: EngineEvent[]) => {
+    state.bubbles.forEach(b => {
+      if (!b.isFloating) return;
+      b.vy = (b.vy || 0) + DROP_GRAVITY;
+      b.y += b.vy;
+      if (b.y > state.height - BUBBLE_RADIUS) {
+        b.isFloating = false;
+        b.y = state.height - BUBBLE_RADIUS;
+        events.push({ type: 'landed', bubble: b });
+      }
+    });
+  };
+
+  const tick = (options: StepOptions, events: EngineEvent[]) => {
+    if (!state.gameOver) {
+      // Ceiling timer only runs while the player can actually shoot
+      const { dropIntervalMs } = getCeilingRules(state.level);
+      if (!options.holdCeiling && dropIntervalMs > 0) {
+        state.ceilingTimer += TICK_MS;
+        if (state.ceilingTimer >= dropIntervalMs && !state.slingshots.some(s => s.ball.flying)) {
+          lowerCeiling('timer', events);
+        }
+      }
+
+      // In slingshot order, so two balls in the air always resolve the same way
+      state.slingshots.forEach(({ anchor, ball }, player) => {
+        if (state.gameOver) return;
+        if (ball.flying) {
+          tickFlight(player, events);
+        } else if (!ball.held) {
+          ball.pos.x += (anchor.x - ball.pos.x) * BALL_RETURN_EASE;
+          ball.pos.y += (anchor.y - ball.pos.y) * BALL_RETURN_EASE;
+        }
+      });
+    }
+    tickFalling(events);
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+
+    reset: (seed?: number) => {
+      rng = createRng(seed ?? randomSeed());
+      accumulator = 0;
+      state = createState(state.width, state.height, state.boardVersion + 1);
+    },
+
+    setColorWeights: (weights: ColorWeights | undefined) => {
+      colorWeights = weights;
+    },
+
+    setLevel: (next: LevelDefinition | null) => {
+      level = next;
+    },
+
+    setPlayers: (count: number) => {
+      players = count;
+    },
+
+    // Re-centres everything for a new viewport; returns the horizontal shift applied
+    resize: (width: number, height: number) => {
+      const xShift = state.width > 0 ? (width - state.width) / 2 : 0;
+      state.width = width;
+      state.height = height;
+      state.bubbles.forEach(b => b.x += xShift);
+      state.slingshots.forEach((slingshot, i) => {
+        slingshot.anchor = getAnchor(width, height, i, state.slingshots.length);
+        if (slingshot.ball.flying || slingshot.ball.held) {
+          slingshot.ball.pos.x += xShift;
+        } else {
+          slingshot.ball.pos = { ...slingshot.anchor };
+        }
+      });
+      return xShift;
+    },
+
+    aim: (pos: Point, player: number = 0) => {
+      const { anchor, ball } = state.slingshots[player];
+      if (ball.flying || state.gameOver) return;
+      ball.held = true;
+      ball.pos = clampPull(anchor, pos);
+    },
+
+    // Drops the pulled ball back onto the anchor without firing
+    cancelAim: (player: number = 0) => {
+      const { anchor, ball } = state.slingshots[player];
+      if (!ball.held) return;
+      ball.held = false;
+      ball.pos = { ...anchor };
+    },
+
+    // Lets go of the pulled ball; returns true if it was pulled far enough to fire
+    release: (color: BubbleColor, kind: BubbleKind = 'normal', player: number = 0) => {
+      const { anchor, ball } = state.slingshots[player];
+      if (!ball.held) return false;
+      if (state.shotsLeft === 0) {
+        ball.held = false;
+        ball.pos = { ...anchor };
+        return false;
+      }
+      ball.held = false;
+      const vel = getLaunchVelocity(anchor, ball.pos);
+      if (!vel) {
+        ball.pos = { ...anchor };
+        return false;
+      }
+      ball.color = color;
+      ball.kind = spendShot(kind);
+      ball.vel = vel;
+      ball.flying = true;
+      ball.flightTime = 0;
+      return true;
+    },
+
+    // Fires without a pull, e.g. from a bot or a replay; `from` defaults to wherever the ball is
+    launch: (vel: Point, color: BubbleColor, kind: BubbleKind = 'normal', from?: Point, player: number = 0) => {
+      const { ball } = state.slingshots[player];
+      if (state.gameOver || state.shotsLeft === 0) return;
+      ball.held = false;
+      if (from) ball.pos = { ...from };
+      ball.color = color;
+      ball.kind = spendShot(kind);
+      ball.vel = { ...vel };
+      ball.flying = true;
+      ball.flightTime = 0;
+    },
+
+    step: (dt: number, options: StepOptions = {}) => {
+      const events: EngineEvent[] = [];
+      accumulator += dt;
+      let ticks = 0;
+      while (accumulator >= TICK_MS && ticks < MAX_TICKS_PER_STEP) {
+        tick(options, events);
+        accumulator -= TICK_MS;
+        ticks++;
+      }
+      accumulator = Math.min(accumulator, TICK_MS);
+      return events;
+    },
+
+    dropCeiling: () => {
+      const events: EngineEvent[] = [];
+      if (!state.gameOver) lowerCeiling('timer', events);
+      return events;
+    },
+
+    getDangerY,
+    getLastSafeRow,
+    // Hints are worked out from the first slingshot
+    getReachableClusters: () => getAllReachableClusters(state.bubbles, state.slingshots[0].anchor, getFlightBounds()),
+
+    // Detached copy of the board for hint sources; criticalRowMargin = rows of warning before the danger line.
+    // With heldColor (queue mode) only that word's clusters are offered.
+    getSnapshot: (criticalRowMargin: number, heldColor?: BubbleColor) => {
+      const active = state.bubbles.filter(b => b.active).map(b => ({ ...b }));
+      const { anchor } = state.slingshots[0];
+      const candidates = getAllReachableClusters(active, anchor, getFlightBounds());
+      return {
+        version: state.boardVersion,
+        bubbles: active,
+        width: state.width,
+        height: state.height,
+        anchor: { ...anchor },
+        ceilingRows: state.ceilingRows,
+        dangerRow: getLowestRow(active),
+        criticalRow: Math.max(0, getLastSafeRow() - criticalRowMargin),
+        candidates: heldColor ? candidates.filter(c => c.color === heldColor) : candidates,
+        shootableColors: heldColor ? [heldColor] : getMatchableColors(active),
+        heldColor,
+        stones: active.filter(b => b.kind === 'stone').length,
+        specialShots: { ...state.specialShots }
+      };
+    },
+
+    // Runs the held ball's flight forward with the same physics step; null unless a pull would fire
+    previewShot: (player: number = 0) => {
+      const { anchor, ball } = state.slingshots[player];
+      if (!ball.held || state.gameOver) return null;
+      const vel = getLaunchVelocity(anchor, ball.pos);
+      if (!vel) return null;
+
+      const flight = simulateFlight(ball.pos, vel, state.bubbles, getFlightBounds(), Math.ceil(MAX_FLIGHT_MS / TICK_MS));
+      if (!flight.collided) return { flight, hit: null, cell: null };
+
+      const cell = findSnapCell(state.bubbles, flight.end, state.width, state.ceilingRows, getSnapRowCount());
+      return { flight, hit: findTouchedBubble(flight.end), cell };
+    },
+
+    saveBoard: () => ({
+      seed: state.seed,
+      bubbles: state.bubbles.filter(b => b.active).map(({ id, row, col, color, kind }) => ({ id, row, col, color, kind })),
+      score: state.score,
+      combo: state.slingshots[0].combo,
+      shotCount: state.shotCount,
+      ceilingRows: state.ceilingRows,
+      missedShots: state.missedShots,
+      ceilingTimer: state.ceilingTimer,
+      levelId: state.level?.id,
+      shotsLeft: state.shotsLeft,
+      popCounts: state.popCounts,
+      specialShots: state.specialShots
+    }),
+
+    restoreBoard: (saved: SavedBoard) => {
+      rng = createRng(saved.seed);
+      accumulator = 0;
+      state = createState(state.width, state.height, state.boardVersion + 1);
+      state.bubbles = saved.bubbles.map(b => ({
+        ...b,
+        ...getBubblePos(b.row, b.col, state.width, saved.ceilingRows),
+        active: true
+      }));
+      state.score = saved.score;
+      state.slingshots[0].combo = saved.combo ?? 0;
+      state.shotCount = saved.shotCount;
+      state.ceilingRows = saved.ceilingRows;
+      state.missedShots = saved.missedShots;
+      state.ceilingTimer = saved.ceilingTimer;
+      state.shotsLeft = saved.shotsLeft !== undefined ? saved.shotsLeft : state.shotsLeft;
+      state.popCounts = saved.popCounts ?? {};
+      state.specialShots = saved.specialShots ?? state.specialShots;
+    },
+
+    // Route from the anchor to the active bubble at row/col (direct or bank), null if there is none
+    planShot: (row: number, col: number) => {
+      const target = state.bubbles.find(b => b.active && b.row === row && b.col === col);
+      return target ? findShotPath(state.bubbles, state.slingshots[0].anchor, target, getFlightBounds()) : null;
+    }
+  };
+};
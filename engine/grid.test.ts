@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { Bubble, BubbleColor, BubbleKind } from '../types';
+import {
+  COLOR_POINTS, DROP_BONUS_MULT, SPECIAL_BUBBLE_POINTS,
+  getBubblePos, isNeighbor, findColorCluster, findFloatingBubbles, findSnapCell, resolveShot
+} from './grid';
+
+const WIDTH = 1280;
+
+const bubble = (row: number, col: number, color: BubbleColor = 'red', kind: BubbleKind = 'normal'): Bubble =>
+  ({ id: `${row}-${col}`, row, col, ...getBubblePos(row, col, WIDTH), color, kind, active: true });
+
+const cell = (row: number, col: number) => ({ row, col, ...getBubblePos(row, col, WIDTH) });
+
+const ids = (bubbles: Bubble[]) => bubbles.map(b => b.id).sort();
+
+describe('isNeighbor', () => {
+  it('links bubbles side by side in the same row', () => {
+    expect(isNeighbor(bubble(0, 3), bubble(0, 4))).toBe(true);
+    expect(isNeighbor(bubble(0, 3), bubble(0, 5))).toBe(false);
+  });
+
+  it('uses col - 1 and col for the diagonals of an even row', () => {
+    const even = bubble(2, 5);
+    expect(isNeighbor(even, bubble(1, 4))).toBe(true);
+    expect(isNeighbor(even, bubble(1, 5))).toBe(true);
+    expect(isNeighbor(even, bubble(3, 4))).toBe(true);
+    expect(isNeighbor(even, bubble(3, 5))).toBe(true);
+    expect(isNeighbor(even, bubble(1, 6))).toBe(false);
+    expect(isNeighbor(even, bubble(3, 6))).toBe(false);
+  });
+
+  it('uses col and col + 1 for the diagonals of an odd row', () => {
+    const odd = bubble(1, 5);
+    expect(isNeighbor(odd, bubble(0, 5))).toBe(true);
+    expect(isNeighbor(odd, bubble(0, 6))).toBe(true);
+    expect(isNeighbor(odd, bubble(2, 5))).toBe(true);
+    expect(isNeighbor(odd, bubble(2, 6))).toBe(true);
+    expect(isNeighbor(odd, bubble(0, 4))).toBe(false);
+    expect(isNeighbor(odd, bubble(2, 4))).toBe(false);
+  });
+
+  it('is symmetric and never spans two rows', () => {
+    expect(isNeighbor(bubble(1, 4), bubble(2, 4))).toBe(isNeighbor(bubble(2, 4), bubble(1, 4)));
+    expect(isNeighbor(bubble(0, 4), bubble(2, 4))).toBe(false);
+  });
+});
+
+describe('findColorCluster', () => {
+  it('collects the connected group of one colour', () => {
+    const grid = [bubble(0, 0), bubble(0, 1), bubble(1, 0), bubble(0, 2, 'blue'), bubble(0, 3)];
+    expect(ids(findColorCluster(grid, grid[0]))).toEqual(['0-0', '0-1', '1-0']);
+  });
+
+  it('lets a rainbow join and pass the match on', () => {
+    const grid = [bubble(0, 0), bubble(0, 1, 'blue', 'rainbow'), bubble(0, 2)];
+    expect(ids(findColorCluster(grid, grid[0]))).toEqual(['0-0', '0-1', '0-2']);
+  });
+
+  it('stops at a stone, whatever its hidden colour', () => {
+    const grid = [bubble(0, 0), bubble(0, 1, 'red', 'stone'), bubble(0, 2)];
+    expect(ids(findColorCluster(grid, grid[0]))).toEqual(['0-0']);
+  });
+});
+
+describe('findFloatingBubbles', () => {
+  it('finds bubbles with no path back to the top row', () => {
+    const grid = [bubble(0, 0), bubble(1, 0), bubble(2, 6)];
+    expect(ids(findFloatingBubbles(grid))).toEqual(['2-6']);
+  });
+
+  it('treats excluded bubbles as gone', () => {
+    const grid = [bubble(0, 0), bubble(1, 0), bubble(2, 0)];
+    expect(ids(findFloatingBubbles(grid, new Set(['0-0'])))).toEqual(['1-0', '2-0']);
+  });
+
+  it('ignores popped bubbles', () => {
+    const grid = [{ ...bubble(0, 0), active: false }, bubble(1, 0)];
+    expect(ids(findFloatingBubbles(grid))).toEqual(['1-0']);
+  });
+});
+
+describe('findSnapCell', () => {
+  it('snaps to the nearest cell', () => {
+    const { x, y } = getBubblePos(1, 3, WIDTH);
+    expect(findSnapCell([], { x: x + 5, y: y - 5 }, WIDTH, 0, 4)).toMatchObject({ row: 1, col: 3, x, y });
+  });
+
+  it('skips occupied cells', () => {
+    const { x, y } = getBubblePos(1, 3, WIDTH);
+    const snapped = findSnapCell([bubble(1, 3)], { x, y }, WIDTH, 0, 4);
+    expect(snapped.row === 1 && snapped.col === 3).toBe(false);
+    expect(isNeighbor(bubble(1, 3), { ...bubble(snapped.row, snapped.col) })).toBe(true);
+  });
+
+  it('follows a lowered ceiling', () => {
+    const { x, y } = getBubblePos(0, 2, WIDTH, 2);
+    expect(findSnapCell([], { x, y }, WIDTH, 2, 4)).toMatchObject({ row: 0, col: 2, y });
+  });
+});
+
+describe('resolveShot', () => {
+  it('pops a group of three or more', () => {
+    const result = resolveShot([bubble(0, 0), bubble(0, 1)], cell(0, 2), 'red', 'shot');
+    expect(ids(result.popped)).toEqual(['0-0', '0-1', 'shot']);
+    expect(result.matchPoints).toBe(COLOR_POINTS.red * 3);
+    expect(result.bubbles.every(b => !b.active)).toBe(true);
+  });
+
+  it('applies the big-group multiplier above three', () => {
+    const result = resolveShot([bubble(0, 0), bubble(0, 1), bubble(0, 2)], cell(0, 3), 'red', 'shot');
+    expect(result.matchPoints).toBe(Math.floor(COLOR_POINTS.red * 4 * 1.5));
+  });
+
+  it('only places the ball when nothing matches', () => {
+    const result = resolveShot([bubble(0, 0), bubble(0, 1)], cell(0, 2), 'blue', 'shot');
+    expect(result.popped).toEqual([]);
+    expect(result.dropped).toEqual([]);
+    expect(result.placed).toMatchObject({ row: 0, col: 2, color: 'blue', active: true });
+    expect(result.bubbles).toHaveLength(3);
+  });
+
+  it('drops what was hanging from the popped group', () => {
+    const result = resolveShot([bubble(0, 0), bubble(0, 1), bubble(1, 0, 'blue')], cell(0, 2), 'red', 'shot');
+    expect(ids(result.dropped)).toEqual(['1-0']);
+    expect(result.dropped[0]).toMatchObject({ active: false, isFloating: true });
+    expect(result.dropPoints).toBe(COLOR_POINTS.blue * DROP_BONUS_MULT);
+  });
+
+  it('sets a bomb off on its own and blasts its neighbours, stones included', () => {
+    const grid = [bubble(0, 0, 'blue'), bubble(0, 2, 'green', 'stone'), bubble(0, 5)];
+    const result = resolveShot(grid, cell(0, 1), 'red', 'shot', 'bomb');
+    expect(ids(result.popped)).toEqual(['0-0', '0-2', 'shot']);
+    expect(result.bubbles.find(b => b.id === '0-5')?.active).toBe(true);
+  });
+
+  it('chains a bomb caught in the blast', () => {
+    const grid = [bubble(0, 0, 'blue', 'bomb'), bubble(0, 2, 'green', 'bomb'), bubble(0, 3, 'yellow'), bubble(0, 6)];
+    const result = resolveShot(grid, cell(0, 1), 'red', 'shot', 'bomb');
+    expect(ids(result.popped)).toEqual(['0-0', '0-2', '0-3', 'shot']);
+  });
+
+  it('matches a rainbow ball with the word next to it', () => {
+    const result = resolveShot([bubble(0, 0, 'blue'), bubble(0, 1, 'blue')], cell(0, 2), 'red', 'shot', 'rainbow');
+    expect(ids(result.popped)).toEqual(['0-0', '0-1', 'shot']);
+  });
+
+  it('scores a popped rainbow as a special bubble', () => {
+    const result = resolveShot([bubble(0, 0, 'blue'), bubble(0, 1, 'blue')], cell(0, 2), 'red', 'shot', 'rainbow');
+    expect(result.matchPoints).toBe(COLOR_POINTS.blue * 2 + SPECIAL_BUBBLE_POINTS);
+  });
+
+  it('never pops a stone by colour', () => {
+    const result = resolveShot([bubble(0, 0), bubble(0, 1, 'red', 'stone')], cell(0, 2), 'red', 'shot');
+    expect(result.popped).toEqual([]);
+  });
+});
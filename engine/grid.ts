@@ -0,0 +1,313 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Point, Bubble, BubbleColor, BubbleKind } from '../types';
+import { Rng } from './rng';
+
+// Increased Bubble Size for better visibility
+export const BUBBLE_RADIUS = 36;
+export const ROW_HEIGHT = BUBBLE_RADIUS * Math.sqrt(3);
+// Layout Config: Balanced spread (14 cols) and concentrated at top (4 rows)
+export const GRID_COLS = 14;
+export const GRID_ROWS = 4;
+export const GRID_TOP_OFFSET = 60; // Add padding from top
+export const GRID_DENSITY = 0.85;
+
+// Centre distance at which a moving ball counts as touching a grid bubble
+export const COLLISION_DIST = BUBBLE_RADIUS * 1.8;
+
+export const COLOR_KEYS: BubbleColor[] = ['red', 'blue', 'green', 'yellow', 'purple', 'orange'];
+export const BUBBLE_KINDS: BubbleKind[] = ['normal', 'bomb', 'rainbow', 'stone'];
+
+// Scoring Strategy: rarer-feeling words are worth more
+export const COLOR_POINTS: Record<BubbleColor, number> = {
+  red: 100,
+  blue: 150,
+  green: 200,
+  yellow: 250,
+  purple: 300,
+  orange: 500
+};
+
+// Stones and rainbows have no word of their own
+export const SPECIAL_BUBBLE_POINTS = 150;
+
+// Detached bubbles score a bonus on top of the match
+export const DROP_BONUS_MULT = 2;
+
+// Free play: chance per generated bubble of each special kind
+export const SPECIAL_BUBBLE_ODDS: [BubbleKind, number][] = [['stone', 0.03], ['rainbow', 0.02], ['bomb', 0.03]];
+
+// Stones and rainbows carry no word; their colour is never shown or matched
+export const hasWord = (b: Bubble) => b.kind !== 'stone' && b.kind !== 'rainbow';
+
+// Whether `b` can join a match of `color`: rainbows join any colour, stones never do
+export const matchesColor = (b: Bubble, color: BubbleColor) =>
+  b.kind !== 'stone' && (b.kind === 'rainbow' || b.color === color);
+
+export const getBubblePoints = (b: Bubble) => hasWord(b) ? COLOR_POINTS[b.color] : SPECIAL_BUBBLE_POINTS;
+
+// Words that can still be matched on the board
+export const getMatchableColors = (bubbles: Bubble[]): BubbleColor[] =>
+  Array.from(new Set(bubbles.filter(b => b.active && hasWord(b)).map(b => b.color)));
+
+const rollBubbleKind = (rng: Rng): BubbleKind => {
+  const roll = rng.next();
+  let edge = 0;
+  for (const [kind, odds] of SPECIAL_BUBBLE_ODDS) {
+    edge += odds;
+    if (roll < edge) return kind;
+  }
+  return 'normal';
+};
+
+export const getColsInRow = (row: number) => (row % 2 !== 0 ? GRID_COLS - 1 : GRID_COLS);
+
+export const getBubblePos = (row: number, col: number, width: number, ceilingRows: number = 0): Point => {
+  // Dynamically calculate xOffset to center the grid based on current screen width
+  const xOffset = (width - (GRID_COLS * BUBBLE_RADIUS * 2)) / 2 + BUBBLE_RADIUS;
+  const isOdd = row % 2 !== 0;
+  const x = xOffset + col * (BUBBLE_RADIUS * 2) + (isOdd ? BUBBLE_RADIUS : 0);
+  const y = BUBBLE_RADIUS + row * ROW_HEIGHT + GRID_TOP_OFFSET + ceilingRows * ROW_HEIGHT;
+  return { x, y };
+};
+
+// Bottom edge of the (possibly lowered) ceiling
+export const getCeilingY = (ceilingRows: number) => GRID_TOP_OFFSET + ceilingRows * ROW_HEIGHT;
+
+// Odd rows are shifted right by half a bubble, so their diagonal neighbours sit at col and col + 1
+export const isNeighbor = (a: Bubble, b: Bubble) => {
+  const dr = b.row - a.row;
+  const dc = b.col - a.col;
+  if (Math.abs(dr) > 1) return false;
+  if (dr === 0) return Math.abs(dc) === 1;
+  if (a.row % 2 !== 0) {
+    return dc === 0 || dc === 1;
+  } else {
+    return dc === -1 || dc === 0;
+  }
+};
+
+// Relative odds per colour; missing colours count as 1
+export type ColorWeights = Partial<Record<BubbleColor, number>>;
+
+export const generateGrid = (
+  rng: Rng,
+  width: number,
+  rows: number = GRID_ROWS,
+  colors: BubbleColor[] = COLOR_KEYS,
+  weights?: ColorWeights
+): Bubble[] => {
+  const odds = colors.map(c => weights?.[c] ?? 1);
+  const newBubbles: Bubble[] = [];
+  for (let r = 0; r < rows; r++) {
+    // Ensure we fill enough columns to look "spread out"
+    for (let c = 0; c < getColsInRow(r); c++) {
+      // Higher probability to spawn to make it look dense horizontally
+      if (rng.next() < GRID_DENSITY) {
+        const { x, y } = getBubblePos(r, c, width);
+        newBubbles.push({
+          id: `${r}-${c}`,
+          row: r,
+          col: c,
+          x,
+          y,
+          color: weights ? rng.pickWeighted(colors, odds) : rng.pick(colors),
+          kind: rollBubbleKind(rng),
+          active: true
+        });
+      }
+    }
+  }
+  return newBubbles;
+};
+
+// Connected group of `color` containing `start` (start included); rainbows join and pass the match on
+export const findColorCluster = (bubbles: Bubble[], start: Bubble, color: BubbleColor = start.color): Bubble[] => {
+  const toCheck = [start];
+  const visited = new Set<string>();
+  const matches: Bubble[] = [];
+
+  while (toCheck.length > 0) {
+    const current = toCheck.pop()!;
+    if (visited.has(current.id)) continue;
+    visited.add(current.id);
+
+    if (current.id === start.id || matchesColor(current, color)) {
+      matches.push(current);
+      const neighbors = bubbles.filter(b => b.active && !visited.has(b.id) && isNeighbor(current, b));
+      toCheck.push(...neighbors);
+    }
+  }
+  return matches;
+};
+
+// Active bubbles (minus `excluded`) that have no path of neighbours back to row 0
+export const findFloatingBubbles = (bubbles: Bubble[], excluded: Set<string> = new Set()): Bubble[] => {
+  const active = bubbles.filter(b => b.active && !excluded.has(b.id));
+  const connected = new Set<string>();
+  const queue = active.filter(b => b.row === 0);
+  queue.forEach(b => connected.add(b.id));
+
+  while (queue.length > 0) {
+    const curr = queue.shift()!;
+    active.forEach(n => {
+      if (!connected.has(n.id) && isNeighbor(curr, n)) {
+        connected.add(n.id);
+        queue.push(n);
+      }
+    });
+  }
+  return active.filter(b => !connected.has(b.id));
+};
+
+export const getLowestRow = (bubbles: Bubble[]) =>
+  bubbles.reduce((max, b) => b.active ? Math.max(max, b.row) : max, 0);
+
+export const isPathClear = (bubbles: Bubble[], from: Point, target: Bubble) => {
+  const dx = target.x - from.x;
+  const dy = target.y - from.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  const steps = Math.ceil(distance / (BUBBLE_RADIUS / 2));
+
+  for (let i = 1; i < steps - 2; i++) {
+    const t = i / steps;
+    const cx = from.x + dx * t;
+    const cy = from.y + dy * t;
+
+    for (const b of bubbles) {
+      if (!b.active || b.id === target.id) continue;
+      const distSq = Math.pow(cx - b.x, 2) + Math.pow(cy - b.y, 2);
+      if (distSq < Math.pow(COLLISION_DIST, 2)) {
+        return false;
+      }
+    }
+  }
+  return true;
+};
+
+export interface GridCell {
+  row: number;
+  col: number;
+  x: number;
+  y: number;
+}
+
+// Nearest free grid cell to where the ball stopped
+export const findSnapCell = (bubbles: Bubble[], pos: Point, width: number, ceilingRows: number, rowCount: number): GridCell => {
+  let best: GridCell = { row: 0, col: 0, x: 0, y: 0 };
+  let bestDist = Infinity;
+
+  for (let r = 0; r < rowCount; r++) {
+    for (let c = 0; c < getColsInRow(r); c++) {
+      const { x, y } = getBubblePos(r, c, width, ceilingRows);
+      const occupied = bubbles.some(b => b.active && b.row === r && b.col === c);
+      if (occupied) continue;
+
+      const dist = Math.sqrt(Math.pow(pos.x - x, 2) + Math.pow(pos.y - y, 2));
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = { row: r, col: c, x, y };
+      }
+    }
+  }
+  return best;
+};
+
+// Bubbles blown up by the bombs among `poppedIds`; a blasted bomb goes off too. Blasts ignore colour and take stones.
+export const findBlastedBubbles = (bubbles: Bubble[], poppedIds: Set<string>): Bubble[] => {
+  const active = bubbles.filter(b => b.active);
+  const hit = new Set(poppedIds);
+  const bombs = active.filter(b => b.kind === 'bomb' && poppedIds.has(b.id));
+  const blasted: Bubble[] = [];
+
+  while (bombs.length > 0) {
+    const bomb = bombs.pop()!;
+    active.forEach(n => {
+      if (hit.has(n.id) || !isNeighbor(bomb, n)) return;
+      hit.add(n.id);
+      blasted.push(n);
+      if (n.kind === 'bomb') bombs.push(n);
+    });
+  }
+  return blasted;
+};
+
+// What the placed shot pops by itself: a bomb always goes off, a rainbow tries each neighbouring word,
+// anything else needs a 3+ group of its colour
+const findShotMatches = (grid: Bubble[], placed: Bubble): Bubble[] => {
+  if (placed.kind === 'bomb') return [placed];
+  const colors = placed.kind === 'rainbow'
+    ? getMatchableColors(grid.filter(b => isNeighbor(placed, b)))
+    : [placed.color];
+
+  const matched = new Map<string, Bubble>();
+  colors.forEach(color => {
+    const cluster = findColorCluster(grid, placed, color);
+    if (cluster.length >= 3) cluster.forEach(b => matched.set(b.id, b));
+  });
+  return Array.from(matched.values());
+};
+
+export interface ShotResolution {
+  bubbles: Bubble[]; // The full grid after the shot (new objects for anything that changed)
+  placed: Bubble;
+  popped: Bubble[];
+  dropped: Bubble[];
+  matchPoints: number;
+  dropPoints: number;
+}
+
+// Pure: places a bubble of `color` and `kind` in `cell`, pops a 3+ match (plus any bomb blasts)
+// and detaches anything left hanging
+export const resolveShot = (
+  bubbles: Bubble[],
+  cell: GridCell,
+  color: BubbleColor,
+  id: string,
+  kind: BubbleKind = 'normal'
+): ShotResolution => {
+  const placed: Bubble = { id, row: cell.row, col: cell.col, x: cell.x, y: cell.y, color, kind, active: true };
+  const grid = [...bubbles, placed];
+
+  const matches = findShotMatches(grid, placed);
+  if (matches.length === 0) {
+    return { bubbles: grid, placed, popped: [], dropped: [], matchPoints: 0, dropPoints: 0 };
+  }
+
+  const poppedIds = new Set(matches.map(b => b.id));
+  findBlastedBubbles(grid, poppedIds).forEach(b => poppedIds.add(b.id));
+  const floatingIds = new Set(findFloatingBubbles(grid, poppedIds).map(b => b.id));
+
+  const popped: Bubble[] = [];
+  const dropped: Bubble[] = [];
+  const next = grid.map(b => {
+    if (poppedIds.has(b.id)) {
+      const p = { ...b, active: false };
+      popped.push(p);
+      return p;
+    }
+    if (floatingIds.has(b.id)) {
+      const d = { ...b, active: false, isFloating: true, vy: 0 };
+      dropped.push(d);
+      return d;
+    }
+    return b;
+  });
+
+  // Big-group multiplier (combos across shots are scored in scoring.ts)
+  const multiplier = popped.length > 3 ? 1.5 : 1.0;
+  const matchPoints = Math.floor(popped.reduce((sum, p) => sum + getBubblePoints(p), 0) * multiplier);
+  const dropPoints = dropped.reduce((sum, d) => sum + getBubblePoints(d) * DROP_BONUS_MULT, 0);
+
+  return {
+    bubbles: next,
+    placed: next.find(b => b.id === id)!,
+    popped,
+    dropped,
+    matchPoints,
+    dropPoints
+  };
+};
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { Bubble, BubbleColor, BubbleKind, LevelDefinition } from '../types';
+import { createRng } from './rng';
+import { createGameEngine, EngineEvent, GameEngine, TICK_MS } from './gameEngine';
+import { getBubblePos } from './grid';
+import { addPopCounts, generateLevelGrid, getGoalProgress, getStarCount, isLevelWon } from './level';
+
+const WIDTH = 1280;
+
+const level = (changes: Partial<LevelDefinition> = {}): LevelDefinition => ({
+  id: 'test',
+  name: 'Test',
+  layout: ['rr..b', '.g*'],
+  colors: ['red', 'blue'],
+  goals: [{ type: 'clear' }],
+  stars: [100, 500, 1000],
+  ...changes
+});
+
+const bubble = (color: BubbleColor, kind: BubbleKind = 'normal'): Bubble =>
+  ({ id: `${color}-${kind}`, row: 0, col: 0, ...getBubblePos(0, 0, WIDTH), color, kind, active: true });
+
+describe('generateLevelGrid', () => {
+  it('places the authored cells and skips empty ones', () => {
+    const grid = generateLevelGrid(createRng(1), WIDTH, level());
+    expect(grid.map(b => b.id)).toEqual(['0-0', '0-1', '0-4', '1-1', '1-2']);
+    expect(grid.slice(0, 4).map(b => b.color)).toEqual(['red', 'red', 'blue', 'green']);
+    expect(grid[0]).toMatchObject({ ...getBubblePos(0, 0, WIDTH), active: true });
+  });
+
+  it('rolls random cells from the level colours only, the same way for the same seed', () => {
+    const random = level({ layout: ['*'.repeat(14), '*'.repeat(13)] });
+    const grid = generateLevelGrid(createRng(4), WIDTH, random);
+    expect(grid.every(b => random.colors.includes(b.color))).toBe(true);
+    expect(generateLevelGrid(createRng(4), WIDTH, random)).toEqual(grid);
+  });
+
+  it('reads bombs, rainbows and stones from their layout codes', () => {
+    const grid = generateLevelGrid(createRng(1), WIDTH, level({ layout: ['rB@#'] }));
+    expect(grid.map(b => [b.kind, b.color])).toEqual([
+      ['normal', 'red'], ['bomb', 'blue'], ['rainbow', 'red'], ['stone', 'red']
+    ]);
+  });
+});
+
+describe('getGoalProgress', () => {
+  it('tracks clear, pop and score goals', () => {
+    const popCounts = addPopCounts({}, [bubble('red'), bubble('red'), bubble('blue')]);
+    expect(popCounts).toEqual({ red: 2, blue: 1 });
+    expect(addPopCounts(popCounts, [bubble('red', 'bomb'), bubble('red', 'stone'), bubble('blue', 'rainbow')]))
+      .toEqual({ red: 3, blue: 1 });
+
+    const progress = getGoalProgress(
+      [{ type: 'clear' }, { type: 'pop', color: 'red', count: 2 }, { type: 'score', score: 500 }],
+      { bubbles: [bubble('green')], score: 800, popCounts }
+    );
+    expect(progress.map(p => p.done)).toEqual([false, true, true]);
+    expect(progress[0]).toMatchObject({ current: 1, target: 0 });
+    expect(progress[2]).toMatchObject({ current: 500, target: 500 });
+    expect(isLevelWon(progress)).toBe(false);
+    expect(isLevelWon(progress.slice(1))).toBe(true);
+  });
+
+  it('never counts a level without goals as won', () => {
+    expect(isLevelWon([])).toBe(false);
+  });
+});
+
+describe('getStarCount', () => {
+  it('gives at least one star for a win and up to three for the score', () => {
+    expect(getStarCount(level(), 0)).toBe(1);
+    expect(getStarCount(level(), 500)).toBe(2);
+    expect(getStarCount(level(), 5000)).toBe(3);
+  });
+});
+
+// A red pair straddles the middle of the top row, right above the slingshot
+const pairLevel = (changes: Partial<LevelDefinition> = {}) => level({ layout: ['......rr'], ...changes });
+
+const fireUp = (engine: GameEngine, color: BubbleColor) => {
+  engine.launch({ x: 0, y: -20 }, color);
+  const events: EngineEvent[] = [];
+  for (let i = 0; i < 200 && engine.state.slingshots[0].ball.flying; i++) events.push(...engine.step(TICK_MS));
+  return events;
+};
+
+describe('GameEngine levels', () => {
+  it('wins once every goal is met', () => {
+    const engine = createGameEngine({ width: WIDTH, height: 800, seed: 1, level: pairLevel() });
+    expect(fireUp(engine, 'red')).toContainEqual({ type: 'won' });
+    expect(engine.state.won).toBe(true);
+    expect(engine.state.gameOver).toBe(true);
+  });
+
+  it('ends the game when the shot limit runs out first', () => {
+    const engine = createGameEngine({ width: WIDTH, height: 800, seed: 1, level: pairLevel({ layout: ['......rr....bb'], shotLimit: 1 }) });
+    expect(fireUp(engine, 'red')).toContainEqual({ type: 'gameover', reason: 'shots' });
+    expect(engine.state.shotsLeft).toBe(0);
+    expect(engine.state.won).toBe(false);
+  });
+
+  it('pockets a bomb popped from the board as a special shot', () => {
+    const engine = createGameEngine({ width: WIDTH, height: 800, seed: 1, level: pairLevel({ layout: ['......rR....bb'] }) });
+    fireUp(engine, 'red');
+    expect(engine.state.specialShots).toEqual({ bomb: 1, rainbow: 0 });
+  });
+
+  it('carries the combo over popping shots in a row', () => {
+    const engine = createGameEngine({ width: WIDTH, height: 800, seed: 1, level: pairLevel({ layout: ['......bb', '.....rr'] }) });
+    const scores = [...fireUp(engine, 'red'), ...fireUp(engine, 'blue')].flatMap(e => e.type === 'shot' ? [e.score] : []);
+    expect(scores.map(s => s.combo)).toEqual([1, 2]);
+    expect(scores[1].comboBonus).toBeGreaterThan(0);
+  });
+});
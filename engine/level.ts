@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Bubble, BubbleColor, BubbleKind, LevelDefinition, LevelGoal } from '../types';
+import { Rng } from './rng';
+import { ColorWeights, getBubblePos, getColsInRow, hasWord } from './grid';
+
+// Layout characters, see LevelDefinition.layout
+export const LAYOUT_COLORS: Record<string, BubbleColor> = {
+  r: 'red',
+  b: 'blue',
+  g: 'green',
+  y: 'yellow',
+  p: 'purple',
+  o: 'orange'
+};
+export const LAYOUT_RANDOM = '*';
+export const LAYOUT_EMPTY = '.';
+export const LAYOUT_RAINBOW = '@';
+export const LAYOUT_STONE = '#';
+
+// Upper-case colour letters are bombs of that colour
+export const toBombCode = (code: string) => code.toUpperCase();
+export const isBombCode = (code: string) => code !== code.toLowerCase() && !!LAYOUT_COLORS[code.toLowerCase()];
+
+// Bubbles of each colour popped or dropped so far
+export type PopCounts = Partial<Record<BubbleColor, number>>;
+
+export interface GoalProgress {
+  goal: LevelGoal;
+  current: number;
+  target: number;
+  done: boolean;
+}
+
+const getCellKind = (code: string): BubbleKind => {
+  if (code === LAYOUT_RAINBOW) return 'rainbow';
+  if (code === LAYOUT_STONE) return 'stone';
+  return isBombCode(code) ? 'bomb' : 'normal';
+};
+
+// The level's authored board; '*' cells roll one of the level's colours (weighted like generateGrid).
+// Stones and rainbows take the level's first colour, which is never shown.
+export const generateLevelGrid = (rng: Rng, width: number, level: LevelDefinition, weights?: ColorWeights): Bubble[] => {
+  const odds = level.colors.map(c => weights?.[c] ?? 1);
+  const bubbles: Bubble[] = [];
+  level.layout.forEach((line, r) => {
+    for (let c = 0; c < Math.min(line.length, getColsInRow(r)); c++) {
+      const code = line[c];
+      if (code === LAYOUT_EMPTY) continue;
+      const kind = getCellKind(code);
+      const color = code === LAYOUT_RANDOM
+        ? (weights ? rng.pickWeighted(level.colors, odds) : rng.pick(level.colors))
+        : kind === 'stone' || kind === 'rainbow' ? level.colors[0] : LAYOUT_COLORS[code.toLowerCase()];
+      if (!color) continue;
+      const { x, y } = getBubblePos(r, c, width);
+      bubbles.push({ id: `${r}-${c}`, row: r, col: c, x, y, color, kind, active: true });
+    }
+  });
+  return bubbles;
+};
+
+// Only worded bubbles count toward "pop N of a word"
+export const addPopCounts = (counts: PopCounts, removed: Bubble[]): PopCounts => {
+  const next = { ...counts };
+  removed.filter(hasWord).forEach(b => next[b.color] = (next[b.color] ?? 0) + 1);
+  return next;
+};
+
+export const getGoalProgress = (
+  goals: LevelGoal[],
+  state: { bubbles: Bubble[]; score: number; popCounts: PopCounts }
+): GoalProgress[] => goals.map(goal => {
+  switch (goal.type) {
+    case 'clear': {
+      const left = state.bubbles.filter(b => b.active).length;
+      return { goal, current: left, target: 0, done: left === 0 };
+    }
+    case 'pop': {
+      const popped = state.popCounts[goal.color] ?? 0;
+      return { goal, current: Math.min(popped, goal.count), target: goal.count, done: popped >= goal.count };
+    }
+    case 'score':
+      return { goal, current: Math.min(state.score, goal.score), target: goal.score, done: state.score >= goal.score };
+  }
+});
+
+export const isLevelWon = (progress: GoalProgress[]) => progress.length > 0 && progress.every(p => p.done);
+
+// 1 to 3; a won level always earns the first star
+export const getStarCount = (level: LevelDefinition, score: number) =>
+  Math.max(1, level.stars.filter(threshold => score >= threshold).length);
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Point, Bubble } from '../types';
+import { BUBBLE_RADIUS, COLLISION_DIST } from './grid';
+
+export const GRAVITY = 0.0;
+export const FRICTION = 0.998;
+
+export const SLINGSHOT_BOTTOM_OFFSET = 240;
+export const MAX_DRAG_DIST = 200;
+export const MIN_FORCE_MULT = 0.15;
+export const MAX_FORCE_MULT = 0.45;
+export const MIN_LAUNCH_STRETCH = 30; // Shorter pulls snap back instead of firing
+
+// Infinite bounce safeguard: cancel a shot that is still flying after this long
+export const MAX_FLIGHT_MS = 5000;
+
+// Keeps the pulled ball within MAX_DRAG_DIST of the anchor
+export const clampPull = (anchor: Point, pos: Point): Point => {
+  const dx = pos.x - anchor.x;
+  const dy = pos.y - anchor.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist <= MAX_DRAG_DIST) return { x: pos.x, y: pos.y };
+
+  const angle = Math.atan2(dy, dx);
+  return {
+    x: anchor.x + Math.cos(angle) * MAX_DRAG_DIST,
+    y: anchor.y + Math.sin(angle) * MAX_DRAG_DIST
+  };
+};
+
+// Launch velocity for a ball released at `pos`, or null if the pull is too short to fire
+export const getLaunchVelocity = (anchor: Point, pos: Point): Point | null => {
+  const dx = anchor.x - pos.x;
+  const dy = anchor.y - pos.y;
+  const stretchDist = Math.sqrt(dx * dx + dy * dy);
+  if (stretchDist <= MIN_LAUNCH_STRETCH) return null;
+
+  const powerRatio = Math.min(stretchDist / MAX_DRAG_DIST, 1.0);
+  const velocityMultiplier = MIN_FORCE_MULT + (MAX_FORCE_MULT - MIN_FORCE_MULT) * (powerRatio * powerRatio);
+  return { x: dx * velocityMultiplier, y: dy * velocityMultiplier };
+};
+
+export interface FlightBounds {
+  width: number;
+  ceilingY: number;
+}
+
+export interface FlightStep {
+  pos: Point;
+  vel: Point;
+  collided: boolean;
+  bounced: boolean;
+}
+
+// One frame of flight: sub-stepped movement, wall reflection and collision against the grid
+export const advanceBall = (pos: Point, vel: Point, bubbles: Bubble[], bounds: FlightBounds): FlightStep => {
+  const p = { x: pos.x, y: pos.y };
+  const v = { x: vel.x, y: vel.y };
+  const currentSpeed = Math.sqrt(v.x ** 2 + v.y ** 2);
+  const steps = Math.ceil(currentSpeed / (BUBBLE_RADIUS * 0.8));
+  let collided = false;
+  let bounced = false;
+
+  for (let i = 0; i < steps; i++) {
+    p.x += v.x / steps;
+    p.y += v.y / steps;
+
+    if (p.x < BUBBLE_RADIUS || p.x > bounds.width - BUBBLE_RADIUS) {
+      v.x *= -1;
+      p.x = Math.max(BUBBLE_RADIUS, Math.min(bounds.width - BUBBLE_RADIUS, p.x));
+      bounced = true;
+    }
+
+    if (p.y < bounds.ceilingY + BUBBLE_RADIUS) {
+      collided = true;
+      break;
+    }
+
+    for (const b of bubbles) {
+      if (!b.active) continue;
+      const dist = Math.sqrt(Math.pow(p.x - b.x, 2) + Math.pow(p.y - b.y, 2));
+      if (dist < COLLISION_DIST) {
+        collided = true;
+        break;
+      }
+    }
+    if (collided) break;
+  }
+
+  v.y += GRAVITY;
+  v.x *= FRICTION;
+  v.y *= FRICTION;
+
+  return { pos: p, vel: v, collided, bounced };
+};
+
+export interface FlightSimulation {
+  path: Point[]; // Ball position after every frame, starting at `start`
+  end: Point;
+  collided: boolean; // False if the ball left the screen or timed out
+  bounces: number;
+}
+
+// Runs advanceBall forward from a launch, exactly as the live game would, until the ball stops
+export const simulateFlight = (
+  start: Point,
+  vel: Point,
+  bubbles: Bubble[],
+  bounds: FlightBounds & { height: number },
+  maxFrames: number
+): FlightSimulation => {
+  let pos = { ...start };
+  let v = { ...vel };
+  const path: Point[] = [pos];
+  let bounces = 0;
+
+  for (let frame = 0; frame < maxFrames; frame++) {
+    const next = advanceBall(pos, v, bubbles, bounds);
+    pos = next.pos;
+    v = next.vel;
+    path.push(pos);
+    if (next.bounced) bounces++;
+    if (next.collided) return { path, end: pos, collided: true, bounces };
+    if (pos.y > bounds.height) break;
+  }
+  return { path, end: pos, collided: false, bounces };
+};
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BubbleColor } from '../types';
+import { Rng } from './rng';
+import { ColorWeights } from './grid';
+
+// Listening quiz ("듣고 맞추기"): a word is read out and the child has to hit a bubble carrying it
+export const QUIZ_PROMPTS_PER_ROUND = 10;
+export const QUIZ_CORRECT_POINTS = 300;
+export const QUIZ_STREAK_BONUS = 100; // Per correct answer in a row, after the first
+export const QUIZ_WRONG_PENALTY = 100; // The quiz score never goes below 0
+
+export interface QuizAnswer {
+  target: BubbleColor; // Word that was read out
+  hit: BubbleColor; // Word on the bubble the ball touched
+  correct: boolean;
+  points: number; // Negative for a wrong answer
+}
+
+export interface QuizState {
+  promptCount: number; // Prompts in this round
+  target: BubbleColor | null; // Word being asked; null once the round is over
+  answers: QuizAnswer[];
+  score: number;
+  streak: number;
+  endedEarly: boolean; // The board reached the danger line before all prompts were asked
+}
+
+export interface QuizWordResult {
+  color: BubbleColor;
+  asked: number;
+  correct: number;
+}
+
+// Next word to ask, from the words still on the board; avoids asking the same word twice in a row when it can
+export const pickQuizTarget = (
+  rng: Rng,
+  colors: BubbleColor[],
+  previous: BubbleColor | null = null,
+  weights?: ColorWeights
+): BubbleColor | null => {
+  if (colors.length === 0) return null;
+  const pool = colors.length > 1 ? colors.filter(c => c !== previous) : colors;
+  return weights ? rng.pickWeighted(pool, pool.map(c => weights[c] ?? 1)) : rng.pick(pool);
+};
+
+export const createQuiz = (
+  rng: Rng,
+  colors: BubbleColor[],
+  weights?: ColorWeights,
+  promptCount: number = QUIZ_PROMPTS_PER_ROUND
+): QuizState => ({
+  promptCount,
+  target: pickQuizTarget(rng, colors, null, weights),
+  answers: [],
+  score: 0,
+  streak: 0,
+  endedEarly: false
+});
+
+export const isQuizFinished = (quiz: QuizState) => quiz.target === null;
+
+// Scores one answer and moves on to the next prompt; `colors` are the words left on the board after the shot
+export const answerQuiz = (
+  quiz: QuizState,
+  hit: BubbleColor,
+  rng: Rng,
+  colors: BubbleColor[],
+  weights?: ColorWeights
+): QuizState => {
+  if (quiz.target === null) return quiz;
+
+  const correct = hit === quiz.target;
+  const streak = correct ? quiz.streak + 1 : 0;
+  const points = correct ? QUIZ_CORRECT_POINTS + (streak - 1) * QUIZ_STREAK_BONUS : -Math.min(QUIZ_WRONG_PENALTY, quiz.score);
+  const answers = [...quiz.answers, { target: quiz.target, hit, correct, points }];
+  const done = answers.length >= quiz.promptCount;
+
+  return {
+    ...quiz,
+    target: done ? null : pickQuizTarget(rng, colors, quiz.target, weights),
+    answers,
+    score: quiz.score + points,
+    streak
+  };
+};
+
+export const endQuiz = (quiz: QuizState): QuizState =>
+  quiz.target === null ? quiz : { ...quiz, target: null, endedEarly: true };
+
+// Per-word results in the order the words were first asked
+export const getQuizResults = (quiz: QuizState): QuizWordResult[] => {
+  const byColor = new Map<BubbleColor, QuizWordResult>();
+  for (const answer of quiz.answers) {
+    const result = byColor.get(answer.target) ?? { color: answer.target, asked: 0, correct: 0 };
+    byColor.set(answer.target, {
+      ...result,
+      asked: result.asked + 1,
+      correct: result.correct + (answer.correct ? 1 : 0)
+    });
+  }
+  return Array.from(byColor.values());
+};
@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Point, Bubble, TargetCandidate, ShotKind } from '../types';
+import {
+  BUBBLE_RADIUS, COLLISION_DIST, COLOR_POINTS, DROP_BONUS_MULT,
+  findColorCluster, findFloatingBubbles, findBlastedBubbles, getBubblePoints, hasWord, isPathClear
+} from './grid';
+import { FlightBounds, MAX_DRAG_DIST, MAX_FORCE_MULT, simulateFlight } from './physics';
+
+type Wall = 'left' | 'right';
+
+export type ReachBounds = FlightBounds & { height: number };
+
+export interface ShotPath {
+  kind: ShotKind;
+  bounces: number;
+  aimPoint: Point; // First bounce point, or the target itself for a direct shot
+  path: Point[]; // from, bounce points, target
+}
+
+// One and two cushion routes, tried in this order after a direct shot
+const BANK_ROUTES: Wall[][] = [['left'], ['right'], ['left', 'right'], ['right', 'left']];
+
+// The geometric route ignores the small loss when advanceBall clamps the ball at the wall,
+// so it is confirmed by simulation, nudging the aim by up to a few degrees
+const AIM_CORRECTIONS_DEG = [0, 0.5, -0.5, 1, -1, 1.5, -1.5, 2, -2, 3, -3];
+const MAX_TRACE_FRAMES = 120; // Far more than any on-screen bank shot needs
+const FULL_POWER_SPEED = MAX_DRAG_DIST * MAX_FORCE_MULT; // Hints assume a full pull
+
+// The ball's centre turns around one radius from the wall (see advanceBall)
+const getWallX = (wall: Wall, width: number) => wall === 'left' ? BUBBLE_RADIUS : width - BUBBLE_RADIUS;
+
+// Straight-line route from `from` to `to` bouncing off `walls` in order, or null if no such route exists.
+// Works by unfolding: mirror the target through the walls and aim straight at the image.
+const traceBankPath = (from: Point, to: Point, width: number, walls: Wall[]): Point[] | null => {
+  const unfoldedWalls: number[] = [];
+  let mirror = (x: number) => x;
+  for (const wall of walls) {
+    const wx = getWallX(wall, width);
+    unfoldedWalls.push(mirror(wx));
+    const previous = mirror;
+    mirror = (x: number) => previous(2 * wx - x);
+  }
+
+  const imageX = mirror(to.x);
+  if (imageX === from.x) return null;
+
+  const path: Point[] = [from];
+  let lastT = 0;
+  for (let i = 0; i < walls.length; i++) {
+    const t = (unfoldedWalls[i] - from.x) / (imageX - from.x);
+    if (t <= lastT || t >= 1) return null;
+    path.push({ x: getWallX(walls[i], width), y: from.y + (to.y - from.y) * t });
+    lastT = t;
+  }
+  path.push({ x: to.x, y: to.y });
+  return path;
+};
+
+// Follows a straight ray off the walls until it has bounced `bounces` times, then ends at `end`
+const rayPath = (from: Point, angle: number, width: number, bounces: number, end: Point): Point[] => {
+  const path: Point[] = [from];
+  let pos = from;
+  let dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  for (let i = 0; i < bounces && dx !== 0; i++) {
+    const wallX = dx < 0 ? BUBBLE_RADIUS : width - BUBBLE_RADIUS;
+    const t = (wallX - pos.x) / dx;
+    pos = { x: wallX, y: pos.y + dy * t };
+    path.push(pos);
+    dx = -dx;
+  }
+  path.push({ x: end.x, y: end.y });
+  return path;
+};
+
+// The bubble a finished flight is resting against, if any
+const getHitBubble = (bubbles: Bubble[], end: Point): Bubble | null => {
+  let hit: Bubble | null = null;
+  let hitDist = COLLISION_DIST + 1;
+  for (const b of bubbles) {
+    if (!b.active) continue;
+    const dist = Math.hypot(end.x - b.x, end.y - b.y);
+    if (dist < hitDist) {
+      hit = b;
+      hitDist = dist;
+    }
+  }
+  return hit;
+};
+
+// Fires simulated full-power shots around the geometric route; returns the first one that
+// bounces the expected number of times and lands on a bubble in `accept`
+const confirmBankShot = (
+  bubbles: Bubble[],
+  from: Point,
+  route: Point[],
+  bounds: ReachBounds,
+  accept: Set<string>
+): Point[] | null => {
+  const baseAngle = Math.atan2(route[1].y - from.y, route[1].x - from.x);
+  const bounces = route.length - 2;
+
+  for (const offset of AIM_CORRECTIONS_DEG) {
+    const angle = baseAngle + offset * Math.PI / 180;
+    const vel = { x: Math.cos(angle) * FULL_POWER_SPEED, y: Math.sin(angle) * FULL_POWER_SPEED };
+    const flight = simulateFlight(from, vel, bubbles, bounds, MAX_TRACE_FRAMES);
+    if (!flight.collided || flight.bounces !== bounces) continue;
+
+    const hit = getHitBubble(bubbles, flight.end);
+    if (hit && accept.has(hit.id)) return rayPath(from, angle, bounds.width, bounces, hit);
+  }
+  return null;
+};
+
+// Best way to hit `target` (or anything in `accept`, e.g. the rest of its cluster): straight if the
+// line is clear, otherwise off one or two walls
+export const findShotPath = (
+  bubbles: Bubble[],
+  from: Point,
+  target: Bubble,
+  bounds: ReachBounds,
+  accept: Set<string> = new Set([target.id])
+): ShotPath | null => {
+  if (isPathClear(bubbles, from, target)) {
+    return { kind: 'direct', bounces: 0, aimPoint: { x: target.x, y: target.y }, path: [from, { x: target.x, y: target.y }] };
+  }
+
+  for (const walls of BANK_ROUTES) {
+    const route = traceBankPath(from, target, bounds.width, walls);
+    if (!route) continue;
+    const path = confirmBankShot(bubbles, from, route, bounds, accept);
+    if (path) {
+      return { kind: walls[0] === 'left' ? 'left-bank' : 'right-bank', bounces: walls.length, aimPoint: path[1], path };
+    }
+  }
+  return null;
+};
+
+// Every same-colour cluster that has at least one member reachable from `from`, directly or off the walls.
+// Clusters grow from worded bubbles only; a rainbow may belong to several of them, a stone to none.
+export const getAllReachableClusters = (bubbles: Bubble[], from: Point, bounds: ReachBounds): TargetCandidate[] => {
+  const activeBubbles = bubbles.filter(b => b.active);
+  const visited = new Set<string>();
+  const allClusters: TargetCandidate[] = [];
+
+  for (const b of activeBubbles) {
+    if (visited.has(b.id) || !hasWord(b)) continue;
+
+    const clusterMembers = findColorCluster(activeBubbles, b);
+    clusterMembers.forEach(m => { if (hasWord(m)) visited.add(m.id); });
+
+    // Check if this cluster is hittable: lowest member first, direct shots before bank shots
+    clusterMembers.sort((a, b) => b.y - a.y);
+    const memberIds = new Set(clusterMembers.map(m => m.id));
+    let hittableMember = clusterMembers.find(m => isPathClear(bubbles, from, m));
+    let shot: ShotPath | null = hittableMember ? findShotPath(bubbles, from, hittableMember, bounds) : null;
+    for (let i = 0; !shot && i < clusterMembers.length; i++) {
+      shot = findShotPath(bubbles, from, clusterMembers[i], bounds, memberIds);
+      hittableMember = clusterMembers[i];
+    }
+    if (!hittableMember || !shot) continue;
+
+    // A shot of the same colour adds one bubble, so size 2+ pops (setting off its bombs) and may drop others
+    const pops = clusterMembers.length + 1 >= 3;
+    const blasted = pops ? findBlastedBubbles(bubbles, memberIds) : [];
+    const drops = pops
+      ? findFloatingBubbles(bubbles, new Set([...memberIds, ...blasted.map(d => d.id)]))
+      : [];
+    const xPct = hittableMember.x / bounds.width;
+    let desc = "Center";
+    if (xPct < 0.33) desc = "Left";
+    else if (xPct > 0.66) desc = "Right";
+
+    allClusters.push({
+      id: hittableMember.id,
+      color: b.color,
+      size: clusterMembers.length,
+      row: hittableMember.row,
+      col: hittableMember.col,
+      shot: shot.kind,
+      bounces: shot.bounces,
+      aimPoint: shot.aimPoint,
+      path: shot.path,
+      pointsPerBubble: COLOR_POINTS[b.color],
+      dropCount: drops.length,
+      dropPoints: drops.reduce((sum, d) => sum + getBubblePoints(d) * DROP_BONUS_MULT, 0),
+      rainbows: clusterMembers.filter(m => m.kind === 'rainbow').length,
+      bombs: clusterMembers.filter(m => m.kind === 'bomb').length,
+      blastCount: blasted.length,
+      description: desc
+    });
+  }
+  return allClusters;
+};
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Point, BubbleColor, BubbleKind, LevelDefinition, StrategicHint, VocabPack } from '../types';
+import { createGameEngine, EngineEvent, GameEngine, GameState, SavedBoard, TICK_MS } from './gameEngine';
+
+export const RECORDING_SCHEMA_VERSION = 1;
+
+// Ticks the replay waits after a ball settles before firing the next one, so shots can be told apart
+export const REPLAY_SHOT_GAP_TICKS = 20;
+
+export interface RecordedShot {
+  width: number; // Viewport when it was fired; the replay re-centres the board if it changed
+  height: number;
+  timerDrops: number; // Rows the ceiling clock lowered since the previous shot
+  pos: Point; // Where the ball was let go
+  vel: Point;
+  color: BubbleColor;
+  kind: BubbleKind; // As fired: a special the pocket didn't hold is already 'normal'
+  hint: StrategicHint | null; // What the teacher was showing at the time
+}
+
+// One game from its first board to the last shot; the engine is deterministic, so this is enough to re-run it
+export interface GameRecording {
+  version: number;
+  id: string;
+  recordedAt: string; // ISO date the board was dealt or resumed
+  width: number;
+  height: number;
+  level: LevelDefinition | null; // Stored whole so custom levels replay on other devices
+  vocabPack: VocabPack;
+  board: SavedBoard; // Includes the seed
+  shots: RecordedShot[];
+  timerDrops: number; // Ceiling clock drops after the last shot
+}
+
+export const startRecording = (engine: GameEngine, vocabPack: VocabPack, now: Date = new Date()): GameRecording => ({
+  version: RECORDING_SCHEMA_VERSION,
+  id: `recording-${now.getTime().toString(36)}`,
+  recordedAt: now.toISOString(),
+  width: engine.state.width,
+  height: engine.state.height,
+  level: engine.state.level,
+  vocabPack,
+  board: engine.saveBoard(),
+  shots: [],
+  timerDrops: 0
+});
+
+// Call right after a successful release, while the ball still sits where it was let go.
+// Only single-player games are recorded, so the ball is always the first slingshot's.
+export const addRecordedShot = (recording: GameRecording, state: GameState, hint: StrategicHint | null): GameRecording => {
+  const { ball } = state.slingshots[0];
+  return {
+    ...recording,
+    shots: [...recording.shots, {
+      width: state.width,
+      height: state.height,
+      timerDrops: recording.timerDrops,
+      pos: { ...ball.pos },
+      vel: { ...ball.vel },
+      color: ball.color,
+      kind: ball.kind,
+      hint: hint ? { ...hint } : null
+    }],
+    timerDrops: 0
+  };
+};
+
+export const addRecordedTimerDrop = (recording: GameRecording): GameRecording => ({
+  ...recording,
+  timerDrops: recording.timerDrops + 1
+});
+
+export interface Replay {
+  readonly engine: GameEngine;
+  readonly shotIndex: number; // Shots fired so far
+  readonly done: boolean;
+  tick: () => EngineEvent[]; // One engine tick; fires the next shot once the last one has settled
+}
+
+// Re-runs a recording without any input. The ceiling clock is held: its drops are replayed from the log.
+// Resizing the window while a ball was in flight is not reproduced.
+export const createReplay = (recording: GameRecording): Replay => {
+  const engine = createGameEngine({
+    width: recording.width,
+    height: recording.height,
+    seed: recording.board.seed,
+    level: recording.level
+  });
+  engine.restoreBoard(recording.board);
+
+  let shotIndex = 0;
+  let wait = REPLAY_SHOT_GAP_TICKS;
+  let trailingDropsDone = false;
+
+  const isSettled = () => !engine.state.slingshots[0].ball.flying && !engine.state.bubbles.some(b => b.isFloating);
+
+  const fireNext = (events: EngineEvent[]) => {
+    const shot = recording.shots[shotIndex];
+    for (let i = 0; i < shot.timerDrops; i++) events.push(...engine.dropCeiling());
+    if (shot.width !== engine.state.width || shot.height !== engine.state.height) engine.resize(shot.width, shot.height);
+    engine.launch(shot.vel, shot.color, shot.kind, shot.pos);
+    shotIndex++;
+  };
+
+  return {
+    engine,
+    get shotIndex() {
+      return shotIndex;
+    },
+    get done() {
+      return trailingDropsDone && isSettled();
+    },
+    tick: () => {
+      const events: EngineEvent[] = [];
+      if (isSettled() && !trailingDropsDone) {
+        if (wait > 0) {
+          wait--;
+        } else if (shotIndex < recording.shots.length && !engine.state.gameOver) {
+          fireNext(events);
+          wait = REPLAY_SHOT_GAP_TICKS;
+        } else {
+          for (let i = 0; i < recording.timerDrops; i++) events.push(...engine.dropCeiling());
+          trailingDropsDone = true;
+        }
+      }
+      events.push(...engine.step(TICK_MS, { holdCeiling: true }));
+      return events;
+    }
+  };
+};
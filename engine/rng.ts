@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface Rng {
+  seed: number;
+  next: () => number; // Uniform in [0, 1), same contract as Math.random()
+  pick: <T>(items: readonly T[]) => T;
+  pickWeighted: <T>(items: readonly T[], weights: readonly number[]) => T; // weights[i] >= 0, same order as items
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 0xffffffff);
+
+// Mulberry32: tiny, fast and good enough for gameplay. Same seed => same sequence.
+export const createRng = (seed: number = randomSeed()): Rng => {
+  let a = seed >>> 0;
+
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed: seed >>> 0,
+    next,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    pickWeighted: (items, weights) => {
+      const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+      if (total <= 0) return items[Math.floor(next() * items.length)];
+      let roll = next() * total;
+      for (let i = 0; i < items.length; i++) {
+        roll -= Math.max(0, weights[i]);
+        if (roll < 0) return items[i];
+      }
+      return items[items.length - 1];
+    }
+  };
+};
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { ShotResolution } from './grid';
+import { CLEAR_BONUS, getComboBonus, nextCombo, scoreShot } from './scoring';
+
+const resolution = (matchPoints: number, dropPoints: number, popped: number): ShotResolution => ({
+  bubbles: [],
+  placed: { id: 'shot', row: 0, col: 0, x: 0, y: 0, color: 'red', active: false },
+  popped: Array.from({ length: popped }, (_, i) => ({ id: `${i}`, row: 0, col: i, x: 0, y: 0, color: 'red' as const, active: false })),
+  dropped: [],
+  matchPoints,
+  dropPoints
+});
+
+describe('nextCombo', () => {
+  it('grows with each popping shot and ends on a miss', () => {
+    expect(nextCombo(0, true)).toBe(1);
+    expect(nextCombo(3, true)).toBe(4);
+    expect(nextCombo(3, false)).toBe(0);
+  });
+});
+
+describe('getComboBonus', () => {
+  it('adds nothing for the first shot of a combo', () => {
+    expect(getComboBonus(500, 0)).toBe(0);
+    expect(getComboBonus(500, 1)).toBe(0);
+  });
+
+  it('adds a quarter per shot in a row, up to double', () => {
+    expect(getComboBonus(500, 2)).toBe(125);
+    expect(getComboBonus(500, 3)).toBe(250);
+    expect(getComboBonus(500, 5)).toBe(500);
+    expect(getComboBonus(500, 12)).toBe(500);
+  });
+});
+
+describe('scoreShot', () => {
+  it('adds up match, drop and combo points', () => {
+    expect(scoreShot(resolution(300, 200, 3), 2, false)).toEqual({
+      match: 300, drop: 200, combo: 2, comboBonus: 125, clearBonus: 0, total: 625
+    });
+  });
+
+  it('gives the clear bonus only to a shot that popped the last bubbles', () => {
+    expect(scoreShot(resolution(300, 0, 3), 1, true).clearBonus).toBe(CLEAR_BONUS);
+    expect(scoreShot(resolution(0, 0, 0), 0, true).clearBonus).toBe(0);
+  });
+
+  it('scores a miss as nothing', () => {
+    expect(scoreShot(resolution(0, 0, 0), 0, false).total).toBe(0);
+  });
+});
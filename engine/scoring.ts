@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ShotResolution } from './grid';
+
+// Each popping shot in a row adds this share of the shot's points on top
+export const COMBO_STEP = 0.25;
+export const MAX_COMBO_STEPS = 4; // The bonus stops growing at +100% (a 5-shot combo)
+
+// Emptying the whole board
+export const CLEAR_BONUS = 1000;
+
+// How one shot's points were made up, for the popups, the HUD and the session statistics
+export interface ShotScore {
+  match: number; // Popped bubbles, with the big-group multiplier
+  drop: number; // Bubbles that fell
+  combo: number; // Popping shots in a row, this one included; 0 after a miss
+  comboBonus: number;
+  clearBonus: number;
+  total: number;
+}
+
+// A shot that pops something carries the combo on; anything else (a miss or a lost ball) ends it
+export const nextCombo = (combo: number, popped: boolean) => popped ? combo + 1 : 0;
+
+export const getComboBonus = (points: number, combo: number) =>
+  Math.floor(points * COMBO_STEP * Math.min(Math.max(combo - 1, 0), MAX_COMBO_STEPS));
+
+// `combo` is the count after this shot (see nextCombo); `cleared` = no bubble left on the board
+export const scoreShot = (resolution: ShotResolution, combo: number, cleared: boolean): ShotScore => {
+  const match = resolution.matchPoints;
+  const drop = resolution.dropPoints;
+  const comboBonus = getComboBonus(match + drop, combo);
+  const clearBonus = cleared && resolution.popped.length > 0 ? CLEAR_BONUS : 0;
+  return { match, drop, combo, comboBonus, clearBonus, total: match + drop + comboBonus + clearBonus };
+};
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { createRng } from './rng';
+import { advanceShotQueue, canSwapShotQueue, createShotQueue, refreshShotQueue, swapShotQueue } from './shotQueue';
+
+describe('shotQueue', () => {
+  it('rolls both balls from the words on the board', () => {
+    const queue = createShotQueue(createRng(3), ['red', 'blue']);
+    expect(['red', 'blue']).toContain(queue?.current);
+    expect(['red', 'blue']).toContain(queue?.next);
+    expect(createShotQueue(createRng(3), [])).toBeNull();
+  });
+
+  it('moves the next ball up after a shot', () => {
+    const queue = { current: 'red' as const, next: 'blue' as const, swapped: true };
+    const advanced = advanceShotQueue(queue, createRng(3), ['red', 'blue', 'green']);
+    expect(advanced.current).toBe('blue');
+    expect(advanced.swapped).toBe(false);
+  });
+
+  it('re-rolls a next ball whose word has left the board', () => {
+    const queue = { current: 'red' as const, next: 'blue' as const, swapped: false };
+    expect(advanceShotQueue(queue, createRng(3), ['green']).current).toBe('green');
+  });
+
+  it('swaps once per turn, and only two different words', () => {
+    const queue = { current: 'red' as const, next: 'blue' as const, swapped: false };
+    const swapped = swapShotQueue(queue);
+    expect(swapped).toEqual({ current: 'blue', next: 'red', swapped: true });
+    expect(swapShotQueue(swapped)).toBe(swapped);
+    expect(canSwapShotQueue({ current: 'red', next: 'red', swapped: false })).toBe(false);
+  });
+
+  it('keeps the queue as it is while both words are still on the board', () => {
+    const queue = { current: 'red' as const, next: 'blue' as const, swapped: false };
+    expect(refreshShotQueue(queue, createRng(3), ['red', 'blue', 'green'])).toBe(queue);
+    expect(refreshShotQueue(queue, createRng(3), ['red', 'green'])).toMatchObject({ current: 'red', next: 'green' });
+  });
+});
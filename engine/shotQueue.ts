@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BubbleColor } from '../types';
+import { Rng } from './rng';
+
+// Classic "next bubble" mode: the child fires the ball they are given and can see the one after it.
+// Free-pick mode (any word from the picker) doesn't use this.
+export type ShotMode = 'free' | 'queue';
+
+export interface ShotQueue {
+  current: BubbleColor; // Ball on the slingshot
+  next: BubbleColor; // Shown beside it, comes up after this shot
+  swapped: boolean; // One swap per turn; reset when a ball is fired
+}
+
+// Both balls come from the words still on the board; null when there are none
+export const createShotQueue = (rng: Rng, colors: BubbleColor[]): ShotQueue | null => {
+  if (colors.length === 0) return null;
+  return { current: rng.pick(colors), next: rng.pick(colors), swapped: false };
+};
+
+// After a shot: the next ball moves up and a new one is rolled behind it
+export const advanceShotQueue = (queue: ShotQueue, rng: Rng, colors: BubbleColor[]): ShotQueue => {
+  if (colors.length === 0) return { ...queue, swapped: false };
+  return {
+    current: colors.includes(queue.next) ? queue.next : rng.pick(colors),
+    next: rng.pick(colors),
+    swapped: false
+  };
+};
+
+// Once the board has changed, a ball whose word is gone is re-rolled so it can still match something
+export const refreshShotQueue = (queue: ShotQueue, rng: Rng, colors: BubbleColor[]): ShotQueue => {
+  if (colors.length === 0) return queue;
+  const current = colors.includes(queue.current) ? queue.current : rng.pick(colors);
+  const next = colors.includes(queue.next) ? queue.next : rng.pick(colors);
+  return current === queue.current && next === queue.next ? queue : { ...queue, current, next };
+};
+
+export const canSwapShotQueue = (queue: ShotQueue) => !queue.swapped && queue.current !== queue.next;
+
+export const swapShotQueue = (queue: ShotQueue): ShotQueue =>
+  canSwapShotQueue(queue) ? { current: queue.next, next: queue.current, swapped: true } : queue;
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { Bubble, BubbleColor, LevelDefinition } from '../types';
+import { createGameEngine, EngineEvent, GameEngine, TICK_MS } from './gameEngine';
+import { getBubblePos } from './grid';
+import {
+  VERSUS_SHOTS_PER_PLAYER, createVersus, canVersusShoot, spendVersusShot, scoreVersusShot,
+  isVersusOutOfShots, finishVersus, getVersusWinner, getVersusWordCount
+} from './versus';
+
+const popped = (color: Bubble['color'], kind: Bubble['kind'] = 'normal'): Bubble =>
+  ({ id: `${color}-${kind}`, row: 0, col: 0, x: 0, y: 0, color, kind, active: false });
+
+// Pairs of one colour along the top row, each popped by one more ball of that colour fired straight up
+const pairsLevel: LevelDefinition = {
+  id: 'pairs',
+  name: 'Pairs',
+  layout: ['rr..bb..gg..yy'],
+  colors: ['red', 'blue', 'green', 'yellow'],
+  goals: [{ type: 'clear' }],
+  stars: [0, 100, 200]
+};
+
+const fireAt = (engine: GameEngine, player: number, col: number, color: BubbleColor) => {
+  const { x } = getBubblePos(0, col, engine.state.width);
+  engine.launch({ x: 0, y: -20 }, color, 'normal', { x, y: 700 }, player);
+  const events: EngineEvent[] = [];
+  for (let i = 0; i < 200 && engine.state.slingshots[player].ball.flying; i++) events.push(...engine.step(TICK_MS));
+  const shot = events.find(e => e.type === 'shot');
+  return shot?.type === 'shot' ? shot.score : null;
+};
+
+describe('versus', () => {
+  it('lets only the player whose turn it is shoot when taking turns', () => {
+    const versus = createVersus('turns', ['red', 'blue']);
+    expect(canVersusShoot(versus, 0)).toBe(true);
+    expect(canVersusShoot(versus, 1)).toBe(false);
+    expect(canVersusShoot(createVersus('together', ['red']), 1)).toBe(true);
+  });
+
+  it('passes the turn once a ball lands or is lost', () => {
+    let versus = spendVersusShot(createVersus('turns', ['red', 'blue']), 0);
+    expect(canVersusShoot(versus, 1)).toBe(false); // Still in the air
+    versus = scoreVersusShot(versus, 0, [], 0);
+    expect(versus.turn).toBe(1);
+    versus = scoreVersusShot(spendVersusShot(versus, 1), 1, [popped('red')], 100);
+    expect(versus.turn).toBe(0);
+  });
+
+  it('keeps the turn when the other player has no balls left', () => {
+    let versus = createVersus('turns', ['red']);
+    for (let i = 0; i < VERSUS_SHOTS_PER_PLAYER; i++) versus = spendVersusShot(versus, 1);
+    expect(scoreVersusShot(versus, 0, [], 0).turn).toBe(0);
+  });
+
+  it('counts word bubbles per player, not stones or rainbows', () => {
+    const versus = scoreVersusShot(
+      createVersus('together', ['red']), 1,
+      [popped('red'), popped('red', 'bomb'), popped('blue', 'stone'), popped('green', 'rainbow')], 450
+    );
+    expect(versus.players[1].pops).toEqual({ red: 2 });
+    expect(getVersusWordCount(versus.players[1])).toBe(2);
+    expect(versus.players[1].score).toBe(450);
+    expect(getVersusWinner(versus)).toBe(1);
+  });
+
+  it('ends once, with the first reason', () => {
+    let versus = createVersus('together', ['red']);
+    for (let i = 0; i < VERSUS_SHOTS_PER_PLAYER; i++) versus = spendVersusShot(spendVersusShot(versus, 0), 1);
+    expect(isVersusOutOfShots(versus)).toBe(true);
+    versus = finishVersus(finishVersus(versus, 'shots'), 'danger');
+    expect(versus.ending).toBe('shots');
+    expect(canVersusShoot(versus, 0)).toBe(false);
+    expect(getVersusWinner(versus)).toBeNull();
+  });
+
+  it('keeps a separate combo for each player', () => {
+    const engine = createGameEngine({ width: 1280, height: 800, seed: 1, level: pairsLevel, players: 2 });
+    expect(fireAt(engine, 0, 0, 'red')).toMatchObject({ combo: 1, comboBonus: 0 });
+    expect(fireAt(engine, 1, 4, 'blue')).toMatchObject({ combo: 1, comboBonus: 0 });
+    expect(fireAt(engine, 0, 8, 'green')?.combo).toBe(2);
+
+    // A ball lost by one player leaves the other's combo alone
+    engine.launch({ x: 0, y: 20 }, 'red', 'normal', { x: 640, y: 700 }, 1);
+    for (let i = 0; i < 200 && engine.state.slingshots[1].ball.flying; i++) engine.step(TICK_MS);
+    expect(engine.state.slingshots[1].combo).toBe(0);
+    expect(fireAt(engine, 0, 12, 'yellow')?.combo).toBe(3);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Bubble, BubbleColor } from '../types';
+import { hasWord } from './grid';
+
+// Two-player mode ("둘이서"): two children share the board, each with their own slingshot, word and score
+export type VersusMode = 'turns' | 'together'; // Taking turns, or both shooting whenever they are ready
+export const VERSUS_PLAYERS = 2;
+export const VERSUS_SHOTS_PER_PLAYER = 15;
+
+// Why the match ended: every ball was used, the board was emptied, or a bubble reached the danger line
+export type VersusEnding = 'shots' | 'cleared' | 'danger';
+
+export interface VersusPlayer {
+  color: BubbleColor; // Word on this player's slingshot
+  score: number;
+  shotsLeft: number;
+  pops: Partial<Record<BubbleColor, number>>; // Word bubbles this player popped or dropped, by word
+}
+
+export interface VersusState {
+  mode: VersusMode;
+  players: VersusPlayer[];
+  turn: number; // Whose turn it is; only used when taking turns
+  ending: VersusEnding | null; // null while the match is being played
+}
+
+export const createVersus = (mode: VersusMode, colors: BubbleColor[]): VersusState => ({
+  mode,
+  players: Array.from({ length: VERSUS_PLAYERS }, (_, i) => ({
+    color: colors[i % Math.max(colors.length, 1)] ?? 'red',
+    score: 0,
+    shotsLeft: VERSUS_SHOTS_PER_PLAYER,
+    pops: {}
+  })),
+  turn: 0,
+  ending: null
+});
+
+const updatePlayer = (versus: VersusState, player: number, patch: Partial<VersusPlayer>): VersusState => ({
+  ...versus,
+  players: versus.players.map((p, i) => i === player ? { ...p, ...patch } : p)
+});
+
+export const canVersusShoot = (versus: VersusState, player: number) =>
+  versus.ending === null && versus.players[player].shotsLeft > 0 && (versus.mode === 'together' || versus.turn === player);
+
+export const setVersusColor = (versus: VersusState, player: number, color: BubbleColor): VersusState =>
+  updatePlayer(versus, player, { color });
+
+// A word that has left the board is swapped for one still on it, so both slingshots can always match something
+export const refreshVersusColors = (versus: VersusState, colors: BubbleColor[]): VersusState => {
+  if (colors.length === 0 || versus.players.every(p => colors.includes(p.color))) return versus;
+  return {
+    ...versus,
+    players: versus.players.map((p, i) => colors.includes(p.color) ? p : { ...p, color: colors[i % colors.length] })
+  };
+};
+
+// The ball has left the slingshot
+export const spendVersusShot = (versus: VersusState, player: number): VersusState =>
+  updatePlayer(versus, player, { shotsLeft: Math.max(0, versus.players[player].shotsLeft - 1) });
+
+// The ball has landed (or been lost): `removed` are the bubbles it popped or dropped.
+// Taking turns, play passes to the other player unless they have no balls left.
+export const scoreVersusShot = (versus: VersusState, player: number, removed: Bubble[], points: number): VersusState => {
+  const current = versus.players[player];
+  const pops = { ...current.pops };
+  removed.filter(hasWord).forEach(b => pops[b.color] = (pops[b.color] ?? 0) + 1);
+  const scored = updatePlayer(versus, player, { score: current.score + points, pops });
+
+  const other = (player + 1) % VERSUS_PLAYERS;
+  const turn = versus.mode === 'turns' && scored.players[other].shotsLeft > 0 ? other : versus.turn;
+  return { ...scored, turn };
+};
+
+export const isVersusOutOfShots = (versus: VersusState) => versus.players.every(p => p.shotsLeft === 0);
+
+// The first ending sticks: a ball still in flight may land afterwards and score, but can't change it
+export const finishVersus = (versus: VersusState, ending: VersusEnding): VersusState =>
+  versus.ending ? versus : { ...versus, ending };
+
+export const getVersusWordCount = (player: VersusPlayer) =>
+  Object.values(player.pops).reduce((sum, n) => sum + (n ?? 0), 0);
+
+// Index of the player with the higher score; null for a draw
+export const getVersusWinner = (versus: VersusState): number | null => {
+  const [a, b] = versus.players;
+  if (a.score === b.score) return null;
+  return a.score > b.score ? 0 : 1;
+};
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Triggers a browser download of `content` without a server round-trip
+export const downloadText = (filename: string, content: string, mimeType: string = "text/plain") => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadJson = (filename: string, data: unknown) =>
+  downloadText(filename, JSON.stringify(data, null, 2), "application/json");
+
+// "2026-10-19_14-05" style stamp for exported file names
+export const fileTimestamp = (date: Date = new Date()) =>
+  date.toISOString().slice(0, 16).replace("T", "_").replace(":", "-");
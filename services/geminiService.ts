@@ -4,108 +4,173 @@
 */
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { StrategicHint, AiResponse, DebugInfo } from "../types";
+import { AiResponse, BoardSnapshot, BubbleColor, StrategicHint, TargetCandidate } from "../types";
+import { COLOR_KEYS, getBubblePos, hasWord } from "../engine/grid";
+import { formatWordLabel } from "./vocabService";
+import { solveStrategicHint } from "./localSolver";
+import { HintProvider, HintRequest, createDebugInfo } from "./hintProvider";
 
-// Initialize Gemini Client
-let ai: GoogleGenAI | null = null;
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
 
-if (process.env.API_KEY) {
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-} else {
-    console.error("API_KEY is missing from environment variables.");
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
 }
 
-const MODEL_NAME = "gemini-3-flash-preview";
+// Declared to the model so it can only answer with this shape
+const HINT_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    message: { type: Type.STRING, description: "Short instruction for the child, in Korean" },
+    rationale: { type: Type.STRING, description: "Why this move helps, in Korean" },
+    recommendedColor: { type: Type.STRING, enum: COLOR_KEYS },
+    targetRow: { type: Type.INTEGER },
+    targetCol: { type: Type.INTEGER }
+  },
+  required: ["message", "recommendedColor", "targetRow", "targetCol"],
+  propertyOrdering: ["message", "rationale", "recommendedColor", "targetRow", "targetCol"]
+};
 
-export interface TargetCandidate {
-  id: string;
-  color: string;
-  size: number;
-  row: number;
-  col: number;
-  pointsPerBubble: number;
-  description: string;
+interface ValidatedHint {
+  hint?: StrategicHint; // Missing when nothing usable could be recovered
+  error?: string; // Why the answer was corrected or rejected
 }
 
-// Maps for AI Context
-const COLOR_LABELS: Record<string, string> = {
-    red: "사과 (Apple)",
-    blue: "버스 (Bus)",
-    green: "기차 (Train)",
-    yellow: "사자 (Lion)",
-    purple: "포도 (Grape)",
-    orange: "오렌지 (Orange)"
+// Checks the model's pick against what is really on the board. An exact candidate (or a word bubble of the
+// recommended colour; stones and rainbows only hide one) is accepted; anything else snaps to the nearest
+// candidate, same colour first.
+const validateHint = (json: any, board: BoardSnapshot): ValidatedHint => {
+  if (!json || typeof json !== "object") return { error: "Response is not a JSON object" };
+
+  const color = String(json.recommendedColor ?? "").toLowerCase() as BubbleColor;
+  const row = Number(json.targetRow);
+  const col = Number(json.targetCol);
+  const message = typeof json.message === "string" && json.message.trim() ? json.message : "좋은 자리가 있어요!";
+  const rationale = typeof json.rationale === "string" ? json.rationale : undefined;
+  const answer = `${json.recommendedColor} at [${json.targetRow}, ${json.targetCol}]`;
+
+  // In queue mode only the ball on the slingshot can be fired
+  const validColor = COLOR_KEYS.includes(color) && (!board.heldColor || color === board.heldColor);
+  const validCell = Number.isInteger(row) && Number.isInteger(col);
+
+  if (validColor && validCell) {
+    const isCandidate = board.candidates.some(c => c.color === color && c.row === row && c.col === col);
+    const isBubble = board.bubbles.some(b => hasWord(b) && b.color === color && b.row === row && b.col === col);
+    if (isCandidate || isBubble) {
+      return { hint: { message, rationale, recommendedColor: color, targetRow: row, targetCol: col } };
+    }
+  }
+
+  if (board.candidates.length === 0) {
+    return { error: `No candidates to snap ${answer} to` };
+  }
+
+  // Snap: same colour if the model named one we can shoot, otherwise any candidate
+  const sameColor = board.candidates.filter(c => c.color === color);
+  const pool = sameColor.length > 0 ? sameColor : board.candidates;
+  const from = validCell ? getBubblePos(row, col, board.width, board.ceilingRows) : board.anchor;
+  const distance = (r: number, c: number) => {
+    const p = getBubblePos(r, c, board.width, board.ceilingRows);
+    return Math.hypot(p.x - from.x, p.y - from.y);
+  };
+  const nearest = pool.reduce((best, c) => distance(c.row, c.col) < distance(best.row, best.col) ? c : best);
+
+  return {
+    // The model's words may describe a different colour, so only keep them when the colour survived
+    hint: {
+      message: nearest.color === color ? message : "좋은 자리가 있어요!",
+      rationale: nearest.color === color ? rationale : undefined,
+      recommendedColor: nearest.color,
+      targetRow: nearest.row,
+      targetCol: nearest.col
+    },
+    error: `Invalid target ${answer}, snapped to ${nearest.color} at [${nearest.row}, ${nearest.col}]`
+  };
+};
+
+const describeShot = (t: TargetCandidate) => {
+  if (t.shot === 'direct') return "Shot: DIRECT.";
+  // Named as the player (and the screenshot) sees it: the canvas is mirrored on screen
+  const wall = t.shot === 'left-bank' ? "RIGHT" : "LEFT";
+  return `Shot: BANK off the ${wall} wall${t.bounces > 1 ? ` (${t.bounces} bounces)` : ""}.`;
+};
+
+// Special bubbles in or around the cluster, so the model can weigh a bomb chain or a rainbow link
+const describeSpecials = (t: TargetCandidate) => {
+  const parts: string[] = [];
+  if (t.rainbows > 0) parts.push(`includes ${t.rainbows} RAINBOW wildcard${t.rainbows > 1 ? "s" : ""}`);
+  if (t.bombs > 0) parts.push(`${t.bombs} BOMB${t.bombs > 1 ? "S" : ""} will blast ${t.blastCount} more bubbles`);
+  return parts.length > 0 ? ` Special: ${parts.join(", ")}.` : "";
 };
 
-export const getStrategicHint = async (
-  imageBase64: string,
-  validTargets: TargetCandidate[], // Now contains candidates for ALL colors
-  dangerRow: number
+const getStrategicHint = async (
+  ai: GoogleGenAI | null,
+  model: string,
+  request: HintRequest
 ): Promise<AiResponse> => {
   const startTime = performance.now();
+  const { screenshot: imageBase64, board, vocab, practice = [] } = request;
+  const { candidates: validTargets, dangerRow, criticalRow } = board; // Candidates cover ALL colors
   
   // Default debug info container
-  const debug: DebugInfo = {
-    latency: 0,
-    screenshotBase64: imageBase64, // Keep the raw input for display
-    promptContext: "",
-    rawResponse: "",
-    timestamp: new Date().toLocaleTimeString()
-  };
+  const debug = createDebugInfo(request, `gemini:${model}`);
+
+  // Local Fallback: simulates real shots against the board, no network needed
+  const getBestLocalTarget = () => solveStrategicHint(board, vocab);
 
   if (!ai) {
     return {
-        hint: { message: "API 키가 없습니다." },
-        debug: { ...debug, error: "API Key Missing" }
+        hint: getBestLocalTarget(),
+        debug: { ...debug, latency: Math.round(performance.now() - startTime), error: "API Key Missing (local solver used)" }
     };
   }
 
-  // Local Heuristic Fallback
-  const getBestLocalTarget = (msg: string = "확실한 단어가 안 보여요. 조심하세요!"): StrategicHint => {
-    if (validTargets.length > 0) {
-        // Sort by Total Potential Score (Size * Value) then Height
-        const best = validTargets.sort((a,b) => {
-            const scoreA = a.size * a.pointsPerBubble;
-            const scoreB = b.size * b.pointsPerBubble;
-            return (scoreB - scoreA) || (a.row - b.row);
-        })[0];
-        
-        return {
-            message: `[${COLOR_LABELS[best.color] || best.color.toUpperCase()}]를 맞춰보세요!`,
-            rationale: "Selected based on highest potential cluster score available locally.",
-            targetRow: best.row,
-            targetCol: best.col,
-            recommendedColor: best.color as any
-        };
-    }
-    return { message: msg, rationale: "No valid clusters found to target." };
-  };
-
   const hasDirectTargets = validTargets.length > 0;
 
   const targetListStr = hasDirectTargets 
     ? validTargets.map(t => 
-        `- OPTION: Select ${t.color.toUpperCase()} [${COLOR_LABELS[t.color] || ''}] -> Target [Row ${t.row}, Col ${t.col}]. Cluster Size: ${t.size}.`
+        `- OPTION: Select ${t.color.toUpperCase()} [${formatWordLabel(vocab, t.color)}] -> Target [Row ${t.row}, Col ${t.col}]. Cluster Size: ${t.size}.${describeSpecials(t)}${t.dropCount > 0 ? ` Drops ${t.dropCount} hanging bubbles.` : ''} ${describeShot(t)}`
       ).join("\n")
-    : "NO MATCHES AVAILABLE. Suggest a color to set up a future combo.";
+    : board.heldColor
+      ? `NO MATCHES FOR ${board.heldColor.toUpperCase()}. Suggest where to park it for a future combo.`
+      : "NO MATCHES AVAILABLE. Suggest a color to set up a future combo.";
   
   debug.promptContext = targetListStr;
 
+  const wordMappingStr = Object.keys(vocab.words)
+    .map(color => `- ${color.charAt(0).toUpperCase()}${color.slice(1)}: ${formatWordLabel(vocab, color)}`)
+    .join("\n    ");
+
+  // Only words the child can actually shoot right now
+  const onBoard = practice.filter(p => board.shootableColors.includes(p.color));
+  const learningStr = onBoard.length > 0
+    ? onBoard.map(p =>
+        `- ${p.word} (${p.translation}): 쏜 횟수 ${p.exposures}, 터뜨림 ${p.pops}, 추천 무시 ${p.ignored}${p.due ? " -> 복습할 때예요" : ""}`
+      ).join("\n    ")
+    : "(기록 없음)";
+
   const prompt = `
     당신은 친절한 어린이 한글 선생님입니다.
     학생이 한글 단어가 적힌 구슬을 맞추는 게임을 하고 있습니다.
     
     ### 단어 목록 (WORD MAPPING)
-    - Red: 사과 (Apple)
-    - Blue: 버스 (Bus)
-    - Green: 기차 (Train)
-    - Yellow: 사자 (Lion)
-    - Purple: 포도 (Grape)
-    - Orange: 오렌지 (Orange)
+    ${wordMappingStr}
 
     ### 게임 상태 (GAME STATE)
-    - Danger Level: ${dangerRow >= 6 ? "CRITICAL (구슬이 바닥에 닿으려 해요!)" : "Stable"}
+    - Danger Level: ${dangerRow >= criticalRow ? "CRITICAL (구슬이 바닥에 닿으려 해요!)" : "Stable"}
+    - Lowest Bubble Row: ${dangerRow} (Critical from Row ${criticalRow})
+    - Stones (돌): ${board.stones} (맞춰서 터지지 않고, 매달린 곳이 없어질 때만 떨어져요)
+    - Special balls the child holds: bomb ${board.specialShots.bomb}, rainbow ${board.specialShots.rainbow}
+    ${board.heldColor ? `- Ball on the slingshot: ${board.heldColor.toUpperCase()} [${formatWordLabel(vocab, board.heldColor)}] (학생이 색깔을 고를 수 없어요)` : "- The child may pick any word to shoot."}
+
+    ### 특별한 구슬 (SPECIAL BUBBLES)
+    - BOMB (폭탄): 터지면 주변 구슬을 모두 함께 터뜨려요. 돌도 부술 수 있어요.
+    - RAINBOW (무지개): 어떤 단어와도 같은 구슬로 쳐요.
+    - STONE (돌): 돌을 받치는 구슬을 없애서 떨어뜨려야 해요.
     
+    ### 학습 기록 (LEARNING HISTORY, 복습이 필요한 단어부터)
+    ${learningStr}
+
     ### 가능한 움직임 (AVAILABLE MOVES)
     ${targetListStr}
 
@@ -113,17 +178,21 @@ export const getStrategicHint = async (
     화면과 가능한 움직임을 보고 학생에게 조언해주세요.
     1. 학생이 맞춰야 할 가장 좋은 단어(색깔)를 고르세요.
     2. 학생에게 그 단어를 찾으라고 한국어로 말해주세요. (초등학교 1~2학년 수준)
+    3. targetRow, targetCol, recommendedColor는 반드시 위 "가능한 움직임" 목록에 있는 것 중 하나를 그대로 쓰세요.${board.heldColor ? `
+       학생은 지금 ${vocab.words[board.heldColor].word} 구슬을 들고 있어요. recommendedColor는 "${board.heldColor}"이고, 그 구슬을 어디에 붙이면 좋을지 알려주세요.` : ""}
+    4. BANK 샷을 고르면 "왼쪽 벽에 맞혀서" / "오른쪽 벽에 맞혀서"처럼 어느 벽으로 튕겨야 하는지 말해주세요.
+    5. 폭탄이 들어 있는 움직임은 많이 터뜨리니 좋지만, 고른 단어를 맞추는 것이 먼저예요. 학생이 폭탄이나 무지개 구슬을 가지고 있으면 돌 근처나 막힌 곳에 쓰라고 알려줘도 좋아요.
     
     우선순위:
-    1. **학습**: 같은 단어가 많이 뭉쳐있는 곳을 찾도록 유도하세요.
+    1. **학습**: 학습 기록 위쪽의 복습이 필요한 단어를 먼저 고르세요. 그중에서 같은 단어가 많이 뭉쳐있는 곳을 찾도록 유도하세요.
     2. **생존**: 만약 Danger Level이 CRITICAL이라면, 단어와 상관없이 가장 아래에 있는 구슬을 없애라고 하세요.
 
     ### 응답 형식 (JSON)
     Markdown을 사용하지 말고 오직 JSON만 반환하세요.
     JSON 구조:
     {
-      "message": "짧은 지시 (예: '사과를 찾아보세요!')",
-      "rationale": "이유 설명 (예: '사과를 없애면 포도도 같이 떨어질 거예요.')",
+      "message": "짧은 지시 (예: '${vocab.words.red.word}를 찾아보세요!')",
+      "rationale": "이유 설명 (예: '${vocab.words.red.word}를 없애면 ${vocab.words.purple.word}도 같이 떨어질 거예요.')",
       "recommendedColor": "red|blue|green|yellow|purple|orange",
       "targetRow": integer,
       "targetCol": integer
@@ -135,7 +204,7 @@ export const getStrategicHint = async (
     const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
 
     const response = await ai.models.generateContent({
-      model: MODEL_NAME,
+      model,
       contents: {
         parts: [
             { text: prompt },
@@ -150,63 +219,52 @@ export const getStrategicHint = async (
       config: {
         maxOutputTokens: 2048, // Increased to ensure full JSON response
         temperature: 0.4,
-        responseMimeType: "application/json" 
+        responseMimeType: "application/json",
+        responseSchema: HINT_RESPONSE_SCHEMA,
+        abortSignal: request.signal
       }
     });
 
     const endTime = performance.now();
     debug.latency = Math.round(endTime - startTime);
     
-    let text = response.text || "{}";
+    const text = response.text || "{}";
     debug.rawResponse = text;
-    
-    // Robust JSON Extraction: 
-    // Isolate the substring between the first '{' and the last '}'
-    const firstBrace = text.indexOf('{');
-    const lastBrace = text.lastIndexOf('}');
-
-    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-        text = text.substring(firstBrace, lastBrace + 1);
-    } 
 
     try {
         const json = JSON.parse(text);
         debug.parsedResponse = json;
-        
-        const r = Number(json.targetRow);
-        const c = Number(json.targetCol);
-        
-        if (!isNaN(r) && !isNaN(c) && json.recommendedColor) {
-            return {
-                hint: {
-                    message: json.message || "좋은 자리가 있어요!",
-                    rationale: json.rationale,
-                    targetRow: r,
-                    targetCol: c,
-                    recommendedColor: json.recommendedColor.toLowerCase()
-                },
-                debug
-            };
+
+        const { hint, error } = validateHint(json, board);
+        if (hint) {
+            return { hint, debug: error ? { ...debug, error, outcome: "corrected" } : debug };
         }
         return {
-            hint: getBestLocalTarget("AI가 위치를 잘못 알려줬어요."),
-            debug: { ...debug, error: "Invalid Coordinates in JSON" }
+            hint: getBestLocalTarget(),
+            debug: { ...debug, error: `${error} (local solver used)` }
         };
 
     } catch (e: any) {
         console.warn("Failed to parse Gemini JSON:", text);
         return {
-            hint: getBestLocalTarget("AI 응답을 이해하지 못했어요."),
+            hint: getBestLocalTarget(),
             debug: { ...debug, error: `JSON Parse Error: ${e.message}` }
         };
     }
   } catch (error: any) {
+    // Network/API failures propagate so requestHint can retry or fall back
     console.error("Gemini API Error:", error);
-    const endTime = performance.now();
-    debug.latency = Math.round(endTime - startTime);
-    return {
-        hint: getBestLocalTarget("AI 선생님과 연결이 끊겼어요."),
-        debug: { ...debug, error: error.message || "Unknown API Error" }
-    };
+    throw error;
   }
-};
\ No newline at end of file
+};
+
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): HintProvider => {
+  const model = options.model || DEFAULT_GEMINI_MODEL;
+  const ai = options.apiKey ? new GoogleGenAI({ apiKey: options.apiKey }) : null;
+  if (!ai) console.error("API_KEY is missing from environment variables.");
+
+  return {
+    name: `gemini:${model}`,
+    getHint: (request) => getStrategicHint(ai, model, request)
+  };
+};
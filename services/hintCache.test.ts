@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { BoardSnapshot } from '../types';
+import { getBoardHash } from './hintCache';
+import { PracticeWord } from './learningService';
+
+const board: BoardSnapshot = {
+  version: 1,
+  bubbles: [{ id: '0-0', row: 0, col: 0, x: 0, y: 0, color: 'red', kind: 'normal', active: true }],
+  width: 1280,
+  height: 800,
+  anchor: { x: 640, y: 650 },
+  ceilingRows: 0,
+  dangerRow: 0,
+  criticalRow: 6,
+  candidates: [],
+  shootableColors: ['red'],
+  stones: 0,
+  specialShots: { bomb: 0, rainbow: 0 }
+};
+
+const word = (word: string, pops: number, due: boolean = false): PracticeWord =>
+  ({ color: 'red', word, translation: word, exposures: 3, pops, ignored: 0, due, priority: 0 });
+
+describe('getBoardHash', () => {
+  it('ignores pixel positions and the board version', () => {
+    const moved = { ...board, version: 9, bubbles: board.bubbles.map(b => ({ ...b, x: 50, y: 50 })) };
+    expect(getBoardHash(moved, 'basic')).toBe(getBoardHash(board, 'basic'));
+  });
+
+  it('changes with the practice order and word history', () => {
+    const practice = [word('사과', 0), word('바다', 2)];
+    const hash = getBoardHash(board, 'basic', practice);
+    expect(getBoardHash(board, 'basic', [...practice].reverse())).not.toBe(hash);
+    expect(getBoardHash(board, 'basic', [word('사과', 1), word('바다', 2)])).not.toBe(hash);
+    expect(getBoardHash(board, 'basic', [word('사과', 0, true), word('바다', 2)])).not.toBe(hash);
+    expect(getBoardHash(board, 'basic')).not.toBe(hash);
+  });
+});
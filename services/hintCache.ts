@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiResponse, BoardSnapshot } from "../types";
+import { HintProvider, HintRequest } from "./hintProvider";
+import { PracticeWord } from "./learningService";
+
+export const DEFAULT_HINT_CACHE_SIZE = 50;
+
+// Same bubbles in the same cells with the same danger state = same advice. Pixel positions, the
+// video background and shot count are deliberately left out. The learner's practice list goes in
+// as the prompt shows it (order and counts), so new word history asks the teacher again.
+export const getBoardHash = (board: BoardSnapshot, vocabId: string, practice: PracticeWord[] = []): string => {
+  const cells = board.bubbles
+    .map(b => `${b.row},${b.col},${b.color}${b.kind && b.kind !== 'normal' ? `,${b.kind}` : ""}`)
+    .sort()
+    .join(";");
+  const words = practice
+    .map(p => `${p.word},${p.exposures},${p.pops},${p.ignored}${p.due ? ",due" : ""}`)
+    .join(";");
+  const { bomb, rainbow } = board.specialShots;
+  return `${vocabId}|d${board.dangerRow}|c${board.criticalRow}|s${bomb},${rainbow}|h${board.heldColor ?? ""}|${cells}|p${words}`;
+};
+
+// Wraps a provider with an LRU of its clean answers (no error), keyed by board hash
+export const createCachedProvider = (provider: HintProvider, capacity: number = DEFAULT_HINT_CACHE_SIZE): HintProvider => {
+  const cache = new Map<string, AiResponse>(); // Insertion order = recency, oldest first
+
+  return {
+    name: provider.name,
+    getHint: async (request: HintRequest) => {
+      const boardHash = getBoardHash(request.board, request.vocab.id, request.practice);
+      const cached = cache.get(boardHash);
+
+      if (cached) {
+        cache.delete(boardHash);
+        cache.set(boardHash, cached);
+        return {
+          hint: { ...cached.hint },
+          debug: {
+            ...cached.debug,
+            boardHash,
+            cacheHit: true,
+            latency: 0,
+            screenshotBase64: request.screenshot,
+            boardVersion: request.board.version,
+            timestamp: new Date().toLocaleTimeString()
+          }
+        };
+      }
+
+      const response = await provider.getHint(request);
+      if (!response.debug.error) {
+        cache.set(boardHash, response);
+        if (cache.size > capacity) cache.delete(cache.keys().next().value!);
+      }
+      return { ...response, debug: { ...response.debug, boardHash, cacheHit: false } };
+    }
+  };
+};
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HintProvider } from "./hintProvider";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { createLocalProvider } from "./localSolver";
+import { createScriptedProvider, loadHintScript } from "./scriptedProvider";
+import { DEFAULT_HINT_REQUEST_OPTIONS, HintRequestOptions } from "./hintRequest";
+import { createCachedProvider, DEFAULT_HINT_CACHE_SIZE } from "./hintCache";
+
+export type HintProviderKind = "gemini" | "local" | "scripted";
+
+export interface HintConfig extends HintRequestOptions {
+  provider: HintProviderKind;
+  model: string;
+  apiKey?: string;
+  scriptUrl: string;
+  cacheSize: number; // 0 turns the board cache off
+}
+
+const PROVIDER_KINDS: HintProviderKind[] = ["gemini", "local", "scripted"];
+const DEFAULT_SCRIPT_URL = "/hint-scripts/demo.json";
+
+const readNumber = (value: string | null | undefined, fallback: number) => {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+// Build-time env (see vite.config.ts) with per-page overrides: ?hints=local&model=...&script=/my.json&timeout=5000
+export const loadHintConfig = (search: string = window.location.search): HintConfig => {
+  const params = new URLSearchParams(search);
+  const requested = (params.get("hints") || process.env.HINT_PROVIDER || "") as HintProviderKind;
+  const apiKey = process.env.API_KEY || undefined;
+
+  return {
+    // Without a key Gemini can only fall back anyway, so go straight to the local solver
+    provider: PROVIDER_KINDS.includes(requested) ? requested : (apiKey ? "gemini" : "local"),
+    model: params.get("model") || process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+    apiKey,
+    scriptUrl: params.get("script") || process.env.HINT_SCRIPT_URL || DEFAULT_SCRIPT_URL,
+    timeoutMs: readNumber(params.get("timeout") || process.env.HINT_TIMEOUT_MS, DEFAULT_HINT_REQUEST_OPTIONS.timeoutMs),
+    retries: readNumber(params.get("retries") || process.env.HINT_RETRIES, DEFAULT_HINT_REQUEST_OPTIONS.retries),
+    backoffMs: DEFAULT_HINT_REQUEST_OPTIONS.backoffMs,
+    cacheSize: readNumber(params.get("cache") || process.env.HINT_CACHE_SIZE, DEFAULT_HINT_CACHE_SIZE)
+  };
+};
+
+const createBaseProvider = (config: HintConfig): HintProvider => {
+  switch (config.provider) {
+    case "local":
+      return createLocalProvider();
+    case "scripted":
+      return createScriptedProvider(loadHintScript(config.scriptUrl));
+    case "gemini":
+    default:
+      return createGeminiProvider({ apiKey: config.apiKey, model: config.model });
+  }
+};
+
+export const createHintProvider = (config: HintConfig): HintProvider => {
+  const provider = createBaseProvider(config);
+  // Scripts are played in order, so answering from the cache would skip their steps
+  if (config.provider === "scripted" || config.cacheSize <= 0) return provider;
+  return createCachedProvider(provider, config.cacheSize);
+};
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiResponse, BoardSnapshot, DebugInfo, VocabPack } from "../types";
+import { PracticeWord } from "./learningService";
+
+export interface HintRequest {
+  screenshot: string; // data: URL of the current frame (providers may ignore it)
+  board: BoardSnapshot;
+  vocab: VocabPack;
+  practice?: PracticeWord[]; // The learner's words, weakest first (see learningService)
+  signal?: AbortSignal; // Aborted when the hint is no longer wanted (timeout, new board)
+}
+
+// Anything that can turn a board into advice: Gemini, the offline solver, canned test data...
+export interface HintProvider {
+  name: string;
+  getHint: (request: HintRequest) => Promise<AiResponse>;
+}
+
+// Shared starting point so every provider reports the same DebugInfo shape
+export const createDebugInfo = (request: HintRequest, provider: string): DebugInfo => ({
+  provider,
+  latency: 0,
+  screenshotBase64: request.screenshot, // Keep the raw input for display
+  promptContext: "",
+  boardVersion: request.board.version,
+  candidates: request.board.candidates,
+  rawResponse: "",
+  timestamp: new Date().toLocaleTimeString()
+});
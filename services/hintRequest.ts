@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiResponse, HintOutcome } from "../types";
+import { HintProvider, HintRequest, createDebugInfo } from "./hintProvider";
+import { solveStrategicHint } from "./localSolver";
+
+export interface HintRequestOptions {
+  timeoutMs: number; // Per attempt
+  retries: number; // Extra attempts after a transient failure
+  backoffMs: number; // Wait before the first retry, doubled for each one after
+}
+
+export const DEFAULT_HINT_REQUEST_OPTIONS: HintRequestOptions = {
+  timeoutMs: 8000,
+  retries: 2,
+  backoffMs: 500
+};
+
+const TRANSIENT_STATUS = [408, 429, 500, 502, 503, 504];
+
+// Rate limits, overloaded servers and dropped connections are worth another try; bad requests are not
+const isTransientError = (error: any) => {
+  if (TRANSIENT_STATUS.includes(Number(error?.status))) return true;
+  return /fetch|network|timed? ?out|unavailable|overloaded|resource.?exhausted/i.test(error?.message || "");
+};
+
+// Resolves after `ms`, or rejects as soon as `signal` is aborted
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+class HintTimeoutError extends Error {}
+
+// Rejects with the abort reason once `signal` fires
+const whenAborted = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+  if (signal.aborted) return reject(signal.reason);
+  signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+});
+
+// One provider call with its own abort controller, tied to both the timeout and the caller's signal
+const attempt = async (provider: HintProvider, request: HintRequest, timeoutMs: number): Promise<AiResponse> => {
+  const controller = new AbortController();
+  const outer = request.signal;
+  const forwardAbort = () => controller.abort(outer!.reason);
+  if (outer?.aborted) forwardAbort();
+  outer?.addEventListener("abort", forwardAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(new HintTimeoutError(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+
+  try {
+    // Providers that ignore the signal (local, scripted) still lose the race once it is aborted
+    return await Promise.race([
+      provider.getHint({ ...request, signal: controller.signal }),
+      whenAborted(controller.signal)
+    ]);
+  } catch (error) {
+    // The SDK reports its own AbortError; surface why we aborted instead
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener("abort", forwardAbort);
+  }
+};
+
+// Asks `provider` for a hint with a timeout and retries. Never rejects: on failure the local solver answers
+// and debug.outcome records what happened.
+export const requestHint = async (
+  provider: HintProvider,
+  request: HintRequest,
+  options: HintRequestOptions = DEFAULT_HINT_REQUEST_OPTIONS
+): Promise<AiResponse> => {
+  const startTime = performance.now();
+  let attempts = 0;
+  let lastError: any = null;
+  let outcome: HintOutcome = "error";
+
+  while (attempts <= options.retries) {
+    attempts++;
+    try {
+      const { hint, debug } = await attempt(provider, request, options.timeoutMs);
+      return {
+        hint,
+        debug: { ...debug, attempts, outcome: debug.outcome ?? (debug.error ? "fallback" : "ok") }
+      };
+    } catch (error: any) {
+      lastError = error;
+      if (request.signal?.aborted) {
+        outcome = "cancelled";
+        break;
+      }
+      if (error instanceof HintTimeoutError) {
+        // The player is already waiting; a second full timeout would be worse than the local hint
+        outcome = "timeout";
+        break;
+      }
+      if (!isTransientError(error) || attempts > options.retries) break;
+      try {
+        await delay(options.backoffMs * 2 ** (attempts - 1), request.signal);
+      } catch {
+        outcome = "cancelled";
+        break;
+      }
+    }
+  }
+
+  const debug = createDebugInfo(request, provider.name);
+  return {
+    hint: solveStrategicHint(request.board, request.vocab),
+    debug: {
+      ...debug,
+      latency: Math.round(performance.now() - startTime),
+      attempts,
+      outcome,
+      error: `${lastError?.message || "Unknown API Error"} (local solver used)`
+    }
+  };
+};
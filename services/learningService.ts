@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BubbleColor, VocabPack, VocabWord } from "../types";
+import { COLOR_KEYS, ColorWeights } from "../engine/grid";
+import { Migrations, migrate, readJson, writeJson } from "./storage";
+
+export const LEARNING_SCHEMA_VERSION = 1;
+export const DEFAULT_LEARNER_ID = "default";
+
+const KEY_PREFIX = "gooslgame.learning.";
+const LEARNING_MIGRATIONS: Migrations = {};
+
+// Leitner boxes: popping a word moves it up a box, ignoring the teacher's advice for it moves it down.
+// A word is due for review REVIEW_INTERVALS_MS[box] after it was last seen.
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const REVIEW_INTERVALS_MS = [0, 10 * MINUTE, DAY, 3 * DAY, 7 * DAY];
+export const MAX_BOX = REVIEW_INTERVALS_MS.length - 1;
+
+// Grid bias: a word's odds range from 1 (mastered, not due) to about 4 (weak and due)
+const UNSEEN_PRIORITY = 2;
+const DUE_BONUS = 1;
+const LOW_ACCURACY_BONUS = 0.5;
+const MIN_SHOTS_FOR_ACCURACY = 3;
+
+export interface WordStats {
+  word: string;
+  translation: string;
+  exposures: number; // Shots fired with this word
+  pops: number; // Those shots that popped a cluster
+  ignored: number; // Times the teacher recommended it and the child shot another word
+  box: number; // 0..MAX_BOX
+  lastSeen: string; // ISO date
+  due: string; // ISO date of the next review
+}
+
+export interface LearnerHistory {
+  version: number;
+  learnerId: string;
+  words: Record<string, WordStats>; // Keyed by the Korean word, so stats follow a word across packs
+}
+
+// One word on the current board with the numbers the prompt and the grid care about
+export interface PracticeWord {
+  color: BubbleColor;
+  word: string;
+  translation: string;
+  exposures: number;
+  pops: number;
+  ignored: number;
+  due: boolean;
+  priority: number; // Higher = needs more practice
+}
+
+const storageKey = (learnerId: string) => `${KEY_PREFIX}${learnerId}`;
+
+export const loadLearnerHistory = (learnerId: string = DEFAULT_LEARNER_ID): LearnerHistory => {
+  const data = migrate(readJson(storageKey(learnerId)), LEARNING_SCHEMA_VERSION, LEARNING_MIGRATIONS);
+  if (!data || !data.words || typeof data.words !== "object") {
+    return { version: LEARNING_SCHEMA_VERSION, learnerId, words: {} };
+  }
+  return { version: LEARNING_SCHEMA_VERSION, learnerId, words: data.words };
+};
+
+export const saveLearnerHistory = (history: LearnerHistory) => writeJson(storageKey(history.learnerId), history);
+
+const getStats = (history: LearnerHistory, entry: VocabWord, now: Date): WordStats =>
+  history.words[entry.word] ?? {
+    word: entry.word,
+    translation: entry.translation,
+    exposures: 0,
+    pops: 0,
+    ignored: 0,
+    box: 0,
+    lastSeen: now.toISOString(),
+    due: now.toISOString()
+  };
+
+const reschedule = (stats: WordStats, box: number, now: Date): WordStats => {
+  const clamped = Math.max(0, Math.min(MAX_BOX, box));
+  return {
+    ...stats,
+    box: clamped,
+    lastSeen: now.toISOString(),
+    due: new Date(now.getTime() + REVIEW_INTERVALS_MS[clamped]).toISOString()
+  };
+};
+
+const withStats = (history: LearnerHistory, stats: WordStats): LearnerHistory => ({
+  ...history,
+  words: { ...history.words, [stats.word]: stats }
+});
+
+// A shot with `entry`: a pop promotes the word, a miss only counts the exposure
+export const recordShot = (history: LearnerHistory, entry: VocabWord, popped: boolean, now: Date = new Date()): LearnerHistory => {
+  const stats = getStats(history, entry, now);
+  const counted = { ...stats, exposures: stats.exposures + 1, pops: stats.pops + (popped ? 1 : 0) };
+  return withStats(history, popped ? reschedule(counted, stats.box + 1, now) : { ...counted, lastSeen: now.toISOString() });
+};
+
+// The teacher pointed at `entry` but the child shot something else: probably not recognised yet
+export const recordIgnoredHint = (history: LearnerHistory, entry: VocabWord, now: Date = new Date()): LearnerHistory => {
+  const stats = getStats(history, entry, now);
+  return withStats(history, reschedule({ ...stats, ignored: stats.ignored + 1 }, stats.box - 1, now));
+};
+
+export const getWordPriority = (stats: WordStats | undefined, now: Date = new Date()): number => {
+  if (!stats) return UNSEEN_PRIORITY;
+  let priority = 1 + (MAX_BOX - stats.box) * 0.5;
+  if (new Date(stats.due).getTime() <= now.getTime()) priority += DUE_BONUS;
+  if (stats.exposures >= MIN_SHOTS_FOR_ACCURACY && stats.pops / stats.exposures < 0.5) priority += LOW_ACCURACY_BONUS;
+  return priority;
+};
+
+// Weakest and most overdue first
+export const getPracticeWords = (history: LearnerHistory, pack: VocabPack, now: Date = new Date()): PracticeWord[] =>
+  COLOR_KEYS.map(color => {
+    const entry = pack.words[color];
+    const stats = history.words[entry.word];
+    return {
+      color,
+      word: entry.word,
+      translation: entry.translation,
+      exposures: stats?.exposures ?? 0,
+      pops: stats?.pops ?? 0,
+      ignored: stats?.ignored ?? 0,
+      due: !stats || new Date(stats.due).getTime() <= now.getTime(),
+      priority: getWordPriority(stats, now)
+    };
+  }).sort((a, b) => b.priority - a.priority);
+
+// Odds for generateGrid: weaker words show up more often, but every word still appears
+export const getColorWeights = (history: LearnerHistory, pack: VocabPack, now: Date = new Date()): ColorWeights =>
+  Object.fromEntries(
+    COLOR_KEYS.map(color => [color, getWordPriority(history.words[pack.words[color].word], now)])
+  ) as ColorWeights;
@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BubbleColor, LevelDefinition, LevelGoal, VocabPack } from "../types";
+import { COLOR_KEYS, getColsInRow } from "../engine/grid";
+import { LAYOUT_COLORS, LAYOUT_EMPTY, LAYOUT_RAINBOW, LAYOUT_RANDOM, LAYOUT_STONE, toBombCode } from "../engine/level";
+import { DEFAULT_LEARNER_ID } from "./learningService";
+import { withObjectParticle } from "./vocabService";
+import { Migrations, migrate, readJson, writeJson } from "./storage";
+import firstSteps from "../levels/01-first-steps.json";
+import wordHunt from "../levels/02-word-hunt.json";
+import stripes from "../levels/03-stripes.json";
+import hanging from "../levels/04-hanging.json";
+import rainbow from "../levels/05-rainbow.json";
+import fallingSky from "../levels/06-falling-sky.json";
+
+export const LEVEL_PROGRESS_SCHEMA_VERSION = 1;
+export const CUSTOM_LEVELS_SCHEMA_VERSION = 1;
+export const MAX_LAYOUT_ROWS = 8; // Deeper boards start too close to the danger line
+
+const CUSTOM_LEVELS_KEY = "gooslgame.customLevels";
+const LEVEL_PROGRESS_MIGRATIONS: Migrations = {};
+const CUSTOM_LEVELS_MIGRATIONS: Migrations = {};
+
+export interface LevelValidationResult {
+  level?: LevelDefinition;
+  errors: string[];
+}
+
+export interface LevelResult {
+  stars: number;
+  bestScore: number;
+  completedAt: string; // ISO date of the first win
+}
+
+export interface LevelProgress {
+  version: number;
+  learnerId: string;
+  results: Record<string, LevelResult>; // Won levels only, keyed by level id
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const validateGoal = (raw: any, index: number, errors: string[]): LevelGoal | null => {
+  const where = `goals[${index}]`;
+  if (!raw || typeof raw !== "object") {
+    errors.push(`${where} must be an object.`);
+    return null;
+  }
+  switch (raw.type) {
+    case "clear":
+      return { type: "clear" };
+    case "pop":
+      if (!COLOR_KEYS.includes(raw.color)) errors.push(`${where}.color must be one of ${COLOR_KEYS.join(", ")}.`);
+      if (!isPositiveInteger(raw.count)) errors.push(`${where}.count must be a positive integer.`);
+      return { type: "pop", color: raw.color, count: raw.count };
+    case "score":
+      if (!isPositiveInteger(raw.score)) errors.push(`${where}.score must be a positive integer.`);
+      return { type: "score", score: raw.score };
+    default:
+      errors.push(`${where}.type must be "clear", "pop" or "score".`);
+      return null;
+  }
+};
+
+// Checks an untrusted JSON value against the level format
+export const validateLevel = (data: unknown): LevelValidationResult => {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== "object") {
+    return { errors: ["Level must be a JSON object."] };
+  }
+  const raw = data as Record<string, any>;
+
+  if (!isNonEmptyString(raw.id)) errors.push("\"id\" must be a non-empty string.");
+  if (!isNonEmptyString(raw.name)) errors.push("\"name\" must be a non-empty string.");
+  if (raw.description !== undefined && typeof raw.description !== "string") {
+    errors.push("\"description\" must be a string.");
+  }
+
+  const colors: BubbleColor[] = Array.isArray(raw.colors) ? raw.colors : [];
+  if (colors.length === 0 || colors.some(c => !COLOR_KEYS.includes(c))) {
+    errors.push(`"colors" must list at least one of ${COLOR_KEYS.join(", ")}.`);
+  }
+
+  const layout: string[] = Array.isArray(raw.layout) ? raw.layout : [];
+  if (layout.length === 0 || layout.length > MAX_LAYOUT_ROWS) {
+    errors.push(`"layout" must have 1 to ${MAX_LAYOUT_ROWS} rows.`);
+  }
+  const colorCodes = Object.keys(LAYOUT_COLORS);
+  const codes = new Set([...colorCodes, ...colorCodes.map(toBombCode), LAYOUT_RANDOM, LAYOUT_RAINBOW, LAYOUT_STONE, LAYOUT_EMPTY]);
+  layout.forEach((line, r) => {
+    if (typeof line !== "string") {
+      errors.push(`layout[${r}] must be a string.`);
+      return;
+    }
+    if (line.length > getColsInRow(r)) errors.push(`layout[${r}] has ${line.length} cells, row ${r} holds ${getColsInRow(r)}.`);
+    const bad = Array.from(new Set(line.split("").filter(ch => !codes.has(ch))));
+    if (bad.length > 0) errors.push(`layout[${r}] has unknown cells: ${bad.join(" ")}.`);
+  });
+  if (layout.every(line => typeof line !== "string" || !/[^.]/.test(line))) {
+    errors.push("\"layout\" has no bubbles.");
+  }
+
+  if (raw.shotLimit !== undefined && !isPositiveInteger(raw.shotLimit)) {
+    errors.push("\"shotLimit\" must be a positive integer when set.");
+  }
+
+  const goals = Array.isArray(raw.goals)
+    ? raw.goals.map((g: unknown, i: number) => validateGoal(g, i, errors)).filter(Boolean) as LevelGoal[]
+    : [];
+  if (!Array.isArray(raw.goals) || raw.goals.length === 0) errors.push("\"goals\" must list at least one goal.");
+
+  if (raw.ceiling !== undefined) {
+    if (!raw.ceiling || typeof raw.ceiling !== "object") {
+      errors.push("\"ceiling\" must be an object.");
+    } else {
+      for (const key of ["dropMisses", "dropIntervalMs"]) {
+        if (raw.ceiling[key] !== undefined && !isCount(raw.ceiling[key])) errors.push(`ceiling.${key} must be 0 or more.`);
+      }
+    }
+  }
+
+  const stars = raw.stars;
+  if (!Array.isArray(stars) || stars.length !== 3 || !stars.every(isCount) || stars[0] > stars[1] || stars[1] > stars[2]) {
+    errors.push("\"stars\" must be three ascending scores.");
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    level: {
+      id: raw.id.trim(),
+      name: raw.name.trim(),
+      description: raw.description,
+      layout,
+      colors,
+      shotLimit: raw.shotLimit,
+      goals,
+      ceiling: raw.ceiling,
+      stars: [stars[0], stars[1], stars[2]]
+    },
+    errors
+  };
+};
+
+const builtIn = (data: unknown): LevelDefinition => {
+  const { level, errors } = validateLevel(data);
+  if (!level) throw new Error(`Invalid built-in level: ${errors.join(" ")}`);
+  return level;
+};
+
+// In play order; each level unlocks the next one when won
+export const BUILT_IN_LEVELS: LevelDefinition[] = [firstSteps, wordHunt, stripes, hanging, rainbow, fallingSky].map(builtIn);
+
+const parseLevelText = (text: string): LevelValidationResult => {
+  try {
+    return validateLevel(JSON.parse(text));
+  } catch (e: any) {
+    return { errors: [`JSON Parse Error: ${e.message}`] };
+  }
+};
+
+export const loadLevelFromFile = async (file: File): Promise<LevelValidationResult> =>
+  parseLevelText(await file.text());
+
+// Levels made in the editor, shared by everyone on this device; entries that no longer validate are skipped
+export const loadCustomLevels = (): LevelDefinition[] => {
+  const data = migrate(readJson(CUSTOM_LEVELS_KEY), CUSTOM_LEVELS_SCHEMA_VERSION, CUSTOM_LEVELS_MIGRATIONS);
+  if (!data || !Array.isArray(data.levels)) return [];
+  return data.levels.map((l: unknown) => validateLevel(l).level).filter(Boolean) as LevelDefinition[];
+};
+
+const writeCustomLevels = (levels: LevelDefinition[]) =>
+  writeJson(CUSTOM_LEVELS_KEY, { version: CUSTOM_LEVELS_SCHEMA_VERSION, levels });
+
+// Saving a level with an existing id replaces it
+export const saveCustomLevel = (level: LevelDefinition): LevelDefinition[] => {
+  const levels = [...loadCustomLevels().filter(l => l.id !== level.id), level];
+  writeCustomLevels(levels);
+  return levels;
+};
+
+export const deleteCustomLevel = (id: string): LevelDefinition[] => {
+  const levels = loadCustomLevels().filter(l => l.id !== id);
+  writeCustomLevels(levels);
+  return levels;
+};
+
+const storageKey = (learnerId: string) => `gooslgame.levels.${learnerId}`;
+
+export const loadLevelProgress = (learnerId: string = DEFAULT_LEARNER_ID): LevelProgress => {
+  const data = migrate(readJson(storageKey(learnerId)), LEVEL_PROGRESS_SCHEMA_VERSION, LEVEL_PROGRESS_MIGRATIONS);
+  if (!data || !data.results || typeof data.results !== "object") {
+    return { version: LEVEL_PROGRESS_SCHEMA_VERSION, learnerId, results: {} };
+  }
+  return { version: LEVEL_PROGRESS_SCHEMA_VERSION, learnerId, results: data.results };
+};
+
+// Keeps the best stars and score seen for the level
+export const recordLevelResult = (progress: LevelProgress, levelId: string, stars: number, score: number): LevelProgress => {
+  const previous = progress.results[levelId];
+  const result: LevelResult = {
+    stars: Math.max(stars, previous?.stars ?? 0),
+    bestScore: Math.max(score, previous?.bestScore ?? 0),
+    completedAt: previous?.completedAt ?? new Date().toISOString()
+  };
+  const updated = { ...progress, results: { ...progress.results, [levelId]: result } };
+  writeJson(storageKey(progress.learnerId), updated);
+  return updated;
+};
+
+// The first level is always open; every other one needs the level before it won
+export const isLevelUnlocked = (levels: LevelDefinition[], index: number, progress: LevelProgress) =>
+  index === 0 || !!progress.results[levels[index - 1]?.id];
+
+// Short Korean label for the HUD and the level list
+export const describeGoal = (goal: LevelGoal, pack: VocabPack): string => {
+  switch (goal.type) {
+    case "clear":
+      return "구슬 모두 없애기";
+    case "pop":
+      return `${withObjectParticle(pack.words[goal.color].word)} ${goal.count}개 터뜨리기`;
+    case "score":
+      return `${goal.score.toLocaleString()}점 넘기기`;
+  }
+};
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BoardSnapshot, Bubble, BubbleColor, StrategicHint, VocabPack } from "../types";
+import { findSnapCell, getCeilingY, isNeighbor, matchesColor, resolveShot, GRID_ROWS, GridCell } from "../engine/grid";
+import { MAX_DRAG_DIST, MAX_FLIGHT_MS, getLaunchVelocity, simulateFlight } from "../engine/physics";
+import { TICK_MS } from "../engine/gameEngine";
+import { withObjectParticle } from "./vocabService";
+import { HintProvider, createDebugInfo } from "./hintProvider";
+
+// Aim sweep: every ANGLE_STEP degrees between straight left and straight right (upward only)
+const MIN_ANGLE = 8;
+const MAX_ANGLE = 172;
+const ANGLE_STEP = 2;
+
+const BANK_SHOT_PENALTY = 0.85; // Per bounce: harder for small hands to repeat
+const DANGER_ROW_WEIGHT = 120; // Per bubble removed, multiplied by how deep its row is
+const DEEPEN_PENALTY = 60; // Per row, for a non-popping shot that builds the stack downward while critical
+const SETUP_NEIGHBOR_VALUE = 40; // Per same-colour (or rainbow) neighbour when nothing pops
+
+export interface SolvedShot {
+  angle: number; // Degrees, 90 = straight up
+  color: BubbleColor;
+  cell: GridCell;
+  target: { row: number; col: number }; // Bubble to aim at (or the empty cell when nothing is hit)
+  bounces: number;
+  popped: Bubble[];
+  dropped: Bubble[];
+  points: number;
+  score: number;
+}
+
+const scoreShot = (snapshot: BoardSnapshot, cell: GridCell, color: BubbleColor, bounces: number) => {
+  const resolution = resolveShot(snapshot.bubbles, cell, color, "solver");
+  const points = resolution.matchPoints + resolution.dropPoints;
+  const critical = snapshot.dangerRow >= snapshot.criticalRow;
+  let score = points;
+
+  if (resolution.popped.length > 0) {
+    if (critical) {
+      // Survival first: clearing deep rows buys the most time
+      score += [...resolution.popped, ...resolution.dropped]
+        .filter(b => b.id !== "solver")
+        .reduce((sum, b) => sum + (b.row + 1) * DANGER_ROW_WEIGHT, 0);
+    }
+  } else {
+    const sameNeighbors = snapshot.bubbles.filter(b => matchesColor(b, color) && isNeighbor(resolution.placed, b)).length;
+    score = sameNeighbors * SETUP_NEIGHBOR_VALUE - cell.row * 5;
+    if (critical) score -= cell.row * DEEPEN_PENALTY;
+  }
+
+  score *= Math.pow(BANK_SHOT_PENALTY, bounces);
+  return { resolution, points, score };
+};
+
+// Tries every aim angle x every shootable colour against the current grid and ranks the outcomes
+export const solveShots = (snapshot: BoardSnapshot): SolvedShot[] => {
+  const bounds = { width: snapshot.width, height: snapshot.height, ceilingY: getCeilingY(snapshot.ceilingRows) };
+  const maxFrames = Math.ceil(MAX_FLIGHT_MS / TICK_MS);
+  const rowCount = Math.max(GRID_ROWS + 5, snapshot.dangerRow + 2);
+  const bestByCell = new Map<string, SolvedShot>();
+
+  for (let angle = MIN_ANGLE; angle <= MAX_ANGLE; angle += ANGLE_STEP) {
+    const rad = angle * Math.PI / 180;
+    // Full pull straight back from the anchor, opposite to the launch direction
+    const pull = {
+      x: snapshot.anchor.x - Math.cos(rad) * MAX_DRAG_DIST,
+      y: snapshot.anchor.y + Math.sin(rad) * MAX_DRAG_DIST
+    };
+    const vel = getLaunchVelocity(snapshot.anchor, pull);
+    if (!vel) continue;
+
+    const flight = simulateFlight(snapshot.anchor, vel, snapshot.bubbles, bounds, maxFrames);
+    if (!flight.collided) continue;
+    const cell = findSnapCell(snapshot.bubbles, flight.end, snapshot.width, snapshot.ceilingRows, rowCount);
+
+    for (const color of snapshot.shootableColors) {
+      const { resolution, points, score } = scoreShot(snapshot, cell, color, flight.bounces);
+      const key = `${cell.row}-${cell.col}-${color}`;
+      const existing = bestByCell.get(key);
+      if (existing && existing.score >= score) continue;
+
+      // Aim at the matched bubble touching the landing cell, so the hint points at something visible
+      const hit = resolution.popped.find(b => b.id !== "solver" && isNeighbor(resolution.placed, b));
+      bestByCell.set(key, {
+        angle,
+        color,
+        cell,
+        target: hit ? { row: hit.row, col: hit.col } : { row: cell.row, col: cell.col },
+        bounces: flight.bounces,
+        popped: resolution.popped.filter(b => b.id !== "solver"),
+        dropped: resolution.dropped,
+        points,
+        score
+      });
+    }
+  }
+
+  return Array.from(bestByCell.values()).sort((a, b) => (b.score - a.score) || (a.bounces - b.bounces));
+};
+
+export const solveStrategicHint = (snapshot: BoardSnapshot, vocab: VocabPack): StrategicHint => {
+  const best = solveShots(snapshot)[0];
+  if (!best) {
+    return { message: "확실한 단어가 안 보여요. 조심하세요!", rationale: "맞출 수 있는 곳을 찾지 못했어요." };
+  }
+
+  const word = vocab.words[best.color].word;
+  const critical = snapshot.dangerRow >= snapshot.criticalRow;
+  // Angles below 90 head for the canvas' right wall, which is the player's left on the mirrored screen
+  const bank = best.bounces > 0 ? `${best.angle < 90 ? "왼쪽" : "오른쪽"} 벽에 맞고 튕기게 쏴서 ` : "";
+
+  let message: string;
+  let rationale: string;
+  if (best.popped.length > 0) {
+    message = critical
+      ? `위험해요! ${bank}아래쪽 ${withObjectParticle(word)} 먼저 없애요!`
+      : `${bank}${withObjectParticle(word)} 맞춰보세요!`;
+    rationale = `${word} ${best.popped.length + 1}개가 터져요`
+      + (best.dropped.length > 0 ? `, 구슬 ${best.dropped.length}개도 같이 떨어져요` : "")
+      + `. (+${best.points}점)`;
+  } else {
+    message = `${bank}${withObjectParticle(word)} 같은 단어 옆에 붙여 보세요!`;
+    rationale = `지금은 터뜨릴 곳이 없어요. ${withObjectParticle(word)} 모아두면 다음에 터뜨릴 수 있어요.`;
+  }
+
+  return {
+    message,
+    rationale,
+    targetRow: best.target.row,
+    targetCol: best.target.col,
+    recommendedColor: best.color
+  };
+};
+
+export const createLocalProvider = (): HintProvider => ({
+  name: "local",
+  getHint: async (request) => {
+    const startTime = performance.now();
+    const hint = solveStrategicHint(request.board, request.vocab);
+    const debug = createDebugInfo(request, "local");
+    debug.latency = Math.round(performance.now() - startTime);
+    debug.rawResponse = "(local solver)";
+    debug.parsedResponse = hint;
+    return { hint, debug };
+  }
+});
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DEFAULT_LEARNER_ID } from "./learningService";
+import { Migrations, migrate, readJson, writeJson } from "./storage";
+
+export const PROFILE_SCHEMA_VERSION = 1;
+
+const PROFILES_KEY = "gooslgame.profiles";
+const PROFILE_MIGRATIONS: Migrations = {};
+
+export interface LearnerProfile {
+  id: string; // Also keys the learner's word history (see learningService)
+  name: string;
+  createdAt: string; // ISO date
+}
+
+export interface ProfileData {
+  version: number;
+  activeId: string; // The child playing right now
+  profiles: LearnerProfile[];
+}
+
+// Everyone starts out as the default learner, so history recorded before profiles existed is kept
+const DEFAULT_PROFILE: LearnerProfile = { id: DEFAULT_LEARNER_ID, name: "학생", createdAt: new Date(0).toISOString() };
+
+export const loadProfiles = (): ProfileData => {
+  const data = migrate(readJson(PROFILES_KEY), PROFILE_SCHEMA_VERSION, PROFILE_MIGRATIONS);
+  if (!data || !Array.isArray(data.profiles) || data.profiles.length === 0) {
+    return { version: PROFILE_SCHEMA_VERSION, activeId: DEFAULT_PROFILE.id, profiles: [DEFAULT_PROFILE] };
+  }
+  const activeId = data.profiles.some((p: LearnerProfile) => p.id === data.activeId) ? data.activeId : data.profiles[0].id;
+  return { version: PROFILE_SCHEMA_VERSION, activeId, profiles: data.profiles };
+};
+
+export const getActiveProfile = (): LearnerProfile => {
+  const { activeId, profiles } = loadProfiles();
+  return profiles.find(p => p.id === activeId)!;
+};
+
+export const addProfile = (name: string): ProfileData => {
+  const data = loadProfiles();
+  const profile: LearnerProfile = {
+    id: `learner-${Date.now().toString(36)}`,
+    name: name.trim(),
+    createdAt: new Date().toISOString()
+  };
+  const updated = { ...data, profiles: [...data.profiles, profile] };
+  writeJson(PROFILES_KEY, updated);
+  return updated;
+};
+
+export const setActiveProfile = (id: string): ProfileData => {
+  const data = loadProfiles();
+  if (!data.profiles.some(p => p.id === id)) return data;
+  const updated = { ...data, activeId: id };
+  writeJson(PROFILES_KEY, updated);
+  return updated;
+};
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { VocabPack, VocabWord } from "../types";
+import { ShotScore } from "../engine/scoring";
+import { Migrations, migrate, readJson, writeJson } from "./storage";
+
+export const PROGRESS_SCHEMA_VERSION = 1;
+export const MAX_SESSION_RECORDS = 500; // Oldest are dropped first
+
+const PROGRESS_KEY = "gooslgame.progress";
+const PROGRESS_MIGRATIONS: Migrations = {};
+
+export interface WordTally {
+  word: string;
+  translation: string;
+  shots: number;
+  pops: number;
+}
+
+// Where a session's points came from, summed over its shots
+export interface PointTotals {
+  match: number;
+  drop: number;
+  combo: number;
+  clear: number;
+}
+
+// One sitting at the game, for the parent/teacher dashboard
+export interface SessionRecord {
+  id: string;
+  learnerId: string;
+  startedAt: string; // ISO date
+  endedAt: string; // ISO date of the last shot
+  score: number;
+  vocabPackId: string;
+  vocabPackName: string;
+  shots: number;
+  pops: number;
+  hintsReceived: number; // Hints that recommended a word
+  hintsFollowed: number; // Shots fired with the recommended word
+  words: Record<string, WordTally>; // Keyed by the Korean word
+  points?: PointTotals; // Missing on records saved before the breakdown was kept
+  bestCombo?: number;
+}
+
+interface ProgressData {
+  version: number;
+  sessions: SessionRecord[]; // Oldest first
+}
+
+export const startSessionRecord = (learnerId: string, pack: VocabPack, now: Date = new Date()): SessionRecord => ({
+  id: `session-${now.getTime().toString(36)}`,
+  learnerId,
+  startedAt: now.toISOString(),
+  endedAt: now.toISOString(),
+  score: 0,
+  vocabPackId: pack.id,
+  vocabPackName: pack.name,
+  shots: 0,
+  pops: 0,
+  hintsReceived: 0,
+  hintsFollowed: 0,
+  words: {},
+  points: { match: 0, drop: 0, combo: 0, clear: 0 },
+  bestCombo: 0
+});
+
+export const recordSessionShot = (
+  record: SessionRecord,
+  entry: VocabWord,
+  popped: boolean,
+  followedHint: boolean,
+  score: number,
+  now: Date = new Date()
+): SessionRecord => {
+  const tally = record.words[entry.word] ?? { word: entry.word, translation: entry.translation, shots: 0, pops: 0 };
+  return {
+    ...record,
+    endedAt: now.toISOString(),
+    score,
+    shots: record.shots + 1,
+    pops: record.pops + (popped ? 1 : 0),
+    hintsFollowed: record.hintsFollowed + (followedHint ? 1 : 0),
+    words: { ...record.words, [entry.word]: { ...tally, shots: tally.shots + 1, pops: tally.pops + (popped ? 1 : 0) } }
+  };
+};
+
+export const recordSessionScore = (record: SessionRecord, shot: ShotScore): SessionRecord => {
+  const points = record.points ?? { match: 0, drop: 0, combo: 0, clear: 0 };
+  return {
+    ...record,
+    points: {
+      match: points.match + shot.match,
+      drop: points.drop + shot.drop,
+      combo: points.combo + shot.comboBonus,
+      clear: points.clear + shot.clearBonus
+    },
+    bestCombo: Math.max(record.bestCombo ?? 0, shot.combo)
+  };
+};
+
+export const recordSessionHint = (record: SessionRecord): SessionRecord => ({
+  ...record,
+  hintsReceived: record.hintsReceived + 1
+});
+
+export const loadSessionRecords = (): SessionRecord[] => {
+  const data = migrate(readJson(PROGRESS_KEY), PROGRESS_SCHEMA_VERSION, PROGRESS_MIGRATIONS);
+  return data && Array.isArray(data.sessions) ? data.sessions : [];
+};
+
+// Inserts or replaces the record with the same id; sessions without a single shot are not kept
+export const saveSessionRecord = (record: SessionRecord) => {
+  if (record.shots === 0) return;
+  const sessions = loadSessionRecords().filter(s => s.id !== record.id);
+  sessions.push(record);
+  const data: ProgressData = { version: PROGRESS_SCHEMA_VERSION, sessions: sessions.slice(-MAX_SESSION_RECORDS) };
+  writeJson(PROGRESS_KEY, data);
+};
+
+export const getSessionDurationMs = (record: SessionRecord) =>
+  new Date(record.endedAt).getTime() - new Date(record.startedAt).getTime();
+
+export const getAccuracy = (shots: number, pops: number) => shots > 0 ? pops / shots : 0;
+
+// Per-word totals across sessions, weakest accuracy first
+export const tallyWords = (records: SessionRecord[]): WordTally[] => {
+  const totals = new Map<string, WordTally>();
+  for (const record of records) {
+    for (const tally of Object.values(record.words)) {
+      const total = totals.get(tally.word) ?? { word: tally.word, translation: tally.translation, shots: 0, pops: 0 };
+      totals.set(tally.word, { ...total, shots: total.shots + tally.shots, pops: total.pops + tally.pops });
+    }
+  }
+  return Array.from(totals.values())
+    .sort((a, b) => getAccuracy(a.shots, a.pops) - getAccuracy(b.shots, b.pops) || b.shots - a.shots);
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per session and word, so spreadsheets can pivot by child, word or date
+export const sessionsToCsv = (records: SessionRecord[], learnerNames: Record<string, string>): string => {
+  const header = [
+    "session_id", "learner", "started_at", "duration_min", "score", "vocab_pack",
+    "session_shots", "session_pops", "hints_received", "hints_followed",
+    "match_points", "drop_points", "combo_points", "clear_points", "best_combo",
+    "word", "translation", "word_shots", "word_pops"
+  ];
+  const rows = records.flatMap(r => {
+    const base = [
+      r.id, learnerNames[r.learnerId] ?? r.learnerId, r.startedAt, (getSessionDurationMs(r) / 60000).toFixed(1), r.score, r.vocabPackName,
+      r.shots, r.pops, r.hintsReceived, r.hintsFollowed,
+      r.points?.match ?? "", r.points?.drop ?? "", r.points?.combo ?? "", r.points?.clear ?? "", r.bestCombo ?? ""
+    ];
+    const words = Object.values(r.words);
+    return words.length > 0
+      ? words.map(w => [...base, w.word, w.translation, w.shots, w.pops])
+      : [[...base, "", "", 0, 0]];
+  });
+  return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\n");
+};
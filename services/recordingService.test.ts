@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { createGameEngine } from '../engine/gameEngine';
+import { GameRecording, startRecording } from '../engine/recording';
+import { DEFAULT_VOCAB_PACK } from './vocabService';
+import { validateRecording } from './recordingService';
+
+const recording = (): GameRecording =>
+  startRecording(createGameEngine({ width: 1280, height: 800, seed: 11 }), DEFAULT_VOCAB_PACK, new Date(0));
+
+// Round-trips through JSON like an exported file
+const withBoard = (changes: Record<string, unknown>) => {
+  const data = JSON.parse(JSON.stringify(recording()));
+  return { ...data, board: { ...data.board, ...changes } };
+};
+
+describe('validateRecording', () => {
+  it('accepts an exported recording', () => {
+    const { recording: valid, errors } = validateRecording(JSON.parse(JSON.stringify(recording())));
+    expect(errors).toEqual([]);
+    expect(valid?.board).toEqual(recording().board);
+  });
+
+  it('rejects a board bubble of an unknown kind', () => {
+    const board = recording().board;
+    const bubbles = [{ ...board.bubbles[0], kind: 'ghost' }, ...board.bubbles.slice(1)];
+    expect(validateRecording(withBoard({ bubbles })).recording).toBeUndefined();
+  });
+
+  it('rejects a malformed pocket or pop count', () => {
+    expect(validateRecording(withBoard({ specialShots: { bomb: 'many', rainbow: 0 } })).recording).toBeUndefined();
+    expect(validateRecording(withBoard({ specialShots: { bomb: 1 } })).recording).toBeUndefined();
+    expect(validateRecording(withBoard({ popCounts: { red: -1 } })).recording).toBeUndefined();
+    expect(validateRecording(withBoard({ popCounts: { pink: 2 } })).recording).toBeUndefined();
+    expect(validateRecording(withBoard({ popCounts: [] })).recording).toBeUndefined();
+  });
+
+  it('accepts boards from before the pocket and pop counts were saved', () => {
+    expect(validateRecording(withBoard({ specialShots: undefined, popCounts: undefined })).errors).toEqual([]);
+  });
+
+  it('rejects a shot of an unknown kind', () => {
+    const data = JSON.parse(JSON.stringify(recording()));
+    data.shots = [{ width: 1280, height: 800, timerDrops: 0, pos: { x: 0, y: 0 }, vel: { x: 1, y: -10 }, color: 'red', kind: 'stone', hint: null }];
+    expect(validateRecording(data).errors).toEqual(['shots[0] is not a recorded shot.']);
+  });
+});
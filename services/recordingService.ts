@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LevelDefinition } from "../types";
+import { COLOR_KEYS } from "../engine/grid";
+import { GameRecording, RecordedShot, RECORDING_SCHEMA_VERSION } from "../engine/recording";
+import { isValidBoard } from "./saveService";
+import { validateLevel } from "./levelService";
+import { validateVocabPack } from "./vocabService";
+
+export interface RecordingValidationResult {
+  recording?: GameRecording;
+  errors: string[];
+}
+
+const KINDS = ["normal", "bomb", "rainbow"];
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isPoint = (value: any) => !!value && isNumber(value.x) && isNumber(value.y);
+
+const isValidShot = (shot: any): shot is RecordedShot =>
+  !!shot && isNumber(shot.width) && isNumber(shot.height) && Number.isInteger(shot.timerDrops) &&
+  isPoint(shot.pos) && isPoint(shot.vel) && COLOR_KEYS.includes(shot.color) && KINDS.includes(shot.kind) &&
+  (shot.hint === null || typeof shot.hint?.message === "string");
+
+// Checks an untrusted JSON value (an exported bug report) against the recording format
+export const validateRecording = (data: unknown): RecordingValidationResult => {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== "object") {
+    return { errors: ["Recording must be a JSON object."] };
+  }
+  const raw = data as Record<string, any>;
+
+  if (raw.version !== RECORDING_SCHEMA_VERSION) errors.push(`"version" must be ${RECORDING_SCHEMA_VERSION}.`);
+  if (!isNumber(raw.width) || raw.width <= 0 || !isNumber(raw.height) || raw.height <= 0) {
+    errors.push("\"width\" and \"height\" must be positive numbers.");
+  }
+  if (!isValidBoard(raw.board)) errors.push("\"board\" is not a saved board.");
+
+  const { pack, errors: packErrors } = validateVocabPack(raw.vocabPack);
+  packErrors.forEach(e => errors.push(`vocabPack: ${e}`));
+
+  let level: LevelDefinition | null = null;
+  if (raw.level !== null && raw.level !== undefined) {
+    const result = validateLevel(raw.level);
+    result.errors.forEach(e => errors.push(`level: ${e}`));
+    level = result.level ?? null;
+  }
+
+  const shots: unknown[] = Array.isArray(raw.shots) ? raw.shots : [];
+  if (!Array.isArray(raw.shots)) errors.push("\"shots\" must be a list.");
+  shots.forEach((shot, i) => {
+    if (!isValidShot(shot)) errors.push(`shots[${i}] is not a recorded shot.`);
+  });
+
+  if (errors.length > 0 || !pack) return { errors };
+  return {
+    recording: {
+      version: RECORDING_SCHEMA_VERSION,
+      id: typeof raw.id === "string" ? raw.id : `recording-${Date.now().toString(36)}`,
+      recordedAt: String(raw.recordedAt ?? ""),
+      width: raw.width,
+      height: raw.height,
+      level,
+      vocabPack: pack,
+      board: raw.board,
+      shots: shots as RecordedShot[],
+      timerDrops: Number.isInteger(raw.timerDrops) ? raw.timerDrops : 0
+    },
+    errors
+  };
+};
+
+const parseRecordingText = (text: string): RecordingValidationResult => {
+  try {
+    return validateRecording(JSON.parse(text));
+  } catch (e: any) {
+    return { errors: [`JSON Parse Error: ${e.message}`] };
+  }
+};
+
+export const loadRecordingFromFile = async (file: File): Promise<RecordingValidationResult> =>
+  parseRecordingText(await file.text());
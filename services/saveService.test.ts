@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { createGameEngine } from '../engine/gameEngine';
+import { isValidBoard } from './saveService';
+
+const savedBoard = () => createGameEngine({ width: 1280, height: 800, seed: 5 }).saveBoard();
+
+describe('isValidBoard', () => {
+  it('accepts a board saved by the engine', () => {
+    expect(isValidBoard(savedBoard())).toBe(true);
+  });
+
+  it('accepts bubbles saved before special bubbles had a kind', () => {
+    const board = savedBoard();
+    expect(isValidBoard({ ...board, bubbles: board.bubbles.map(({ kind, ...b }) => b) })).toBe(true);
+  });
+
+  it('rejects a bubble of an unknown kind', () => {
+    const board = savedBoard();
+    expect(isValidBoard({ ...board, bubbles: [...board.bubbles, { ...board.bubbles[0], id: 'x', kind: 'ghost' }] })).toBe(false);
+  });
+
+  it('rejects bubbles with a bad colour or position', () => {
+    const board = savedBoard();
+    expect(isValidBoard({ ...board, bubbles: [{ ...board.bubbles[0], color: 'pink' }] })).toBe(false);
+    expect(isValidBoard({ ...board, bubbles: [{ ...board.bubbles[0], row: 1.5 }] })).toBe(false);
+    expect(isValidBoard({ ...board, bubbles: [null] })).toBe(false);
+  });
+});
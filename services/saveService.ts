@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BubbleColor, VocabPack } from "../types";
+import { SavedBoard } from "../engine/gameEngine";
+import { ShotMode, ShotQueue } from "../engine/shotQueue";
+import { BUBBLE_KINDS, COLOR_KEYS } from "../engine/grid";
+import { validateVocabPack } from "./vocabService";
+import { Migrations, migrate, readJson, writeJson } from "./storage";
+
+// Bump when SaveData / the high-score table changes shape, and add a migration from the previous version below
+export const SAVE_SCHEMA_VERSION = 1;
+export const HIGH_SCORE_SCHEMA_VERSION = 1;
+export const HIGH_SCORE_LIMIT = 10;
+
+const SAVE_KEY = "gooslgame.save";
+const HIGH_SCORES_KEY = "gooslgame.highScores";
+
+export interface SavedSettings {
+  ttsEnabled: boolean;
+  hintMode: 'background' | 'blocking';
+  preferredInput: 'camera' | 'pointer';
+  shotMode?: ShotMode; // Missing = free pick
+}
+
+export interface SavedSession {
+  savedAt: string; // ISO date
+  board: SavedBoard;
+  selectedColor: BubbleColor;
+  queue?: ShotQueue; // Queue mode only
+  vocabPack: VocabPack; // Stored whole so imported packs survive a reload
+}
+
+export interface SaveData {
+  version: number;
+  settings?: SavedSettings;
+  session?: SavedSession; // Absent once the game is over
+}
+
+export interface HighScoreEntry {
+  name: string;
+  score: number;
+  date: string; // ISO date
+  vocabPackId: string;
+  vocabPackName: string;
+}
+
+interface HighScoreData {
+  version: number;
+  lastName?: string; // Pre-fills the name field next time
+  entries: HighScoreEntry[];
+}
+
+const SAVE_MIGRATIONS: Migrations = {};
+const HIGH_SCORE_MIGRATIONS: Migrations = {};
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+// Optional fields added after the first save format: absent is fine, but never the wrong shape
+const isValidPopCounts = (counts: any) =>
+  counts === undefined ||
+  (!!counts && typeof counts === "object" && !Array.isArray(counts) &&
+    Object.entries(counts).every(([color, n]) => COLOR_KEYS.includes(color as BubbleColor) && isCount(n)));
+
+const isValidSpecialShots = (shots: any) =>
+  shots === undefined || (!!shots && isCount(shots.bomb) && isCount(shots.rainbow));
+
+// An unknown bubble kind (corrupted data, or a save from a newer version) rejects the whole board;
+// a missing one is a normal bubble, as saved before special bubbles existed
+export const isValidBoard = (board: any): board is SavedBoard =>
+  !!board && Array.isArray(board.bubbles) &&
+  board.bubbles.every((b: any) =>
+    !!b && typeof b.id === "string" && Number.isInteger(b.row) && Number.isInteger(b.col) && COLOR_KEYS.includes(b.color) &&
+    (b.kind === undefined || BUBBLE_KINDS.includes(b.kind))
+  ) &&
+  ["seed", "score", "shotCount", "ceilingRows", "missedShots", "ceilingTimer"].every(k => typeof board[k] === "number") &&
+  (board.combo === undefined || isCount(board.combo)) &&
+  (board.shotsLeft === undefined || board.shotsLeft === null || isCount(board.shotsLeft)) &&
+  isValidPopCounts(board.popCounts) &&
+  isValidSpecialShots(board.specialShots);
+
+const isValidQueue = (queue: any): queue is ShotQueue =>
+  !!queue && COLOR_KEYS.includes(queue.current) && COLOR_KEYS.includes(queue.next) && typeof queue.swapped === "boolean";
+
+const sanitizeSession = (session: any): SavedSession | undefined => {
+  if (!session || !isValidBoard(session.board)) return undefined;
+  const { pack } = validateVocabPack(session.vocabPack);
+  if (!pack) return undefined;
+  return {
+    savedAt: String(session.savedAt),
+    board: session.board,
+    selectedColor: COLOR_KEYS.includes(session.selectedColor) ? session.selectedColor : COLOR_KEYS[0],
+    queue: isValidQueue(session.queue) ? session.queue : undefined,
+    vocabPack: pack
+  };
+};
+
+export const loadSaveData = (): SaveData => {
+  const data = migrate(readJson(SAVE_KEY), SAVE_SCHEMA_VERSION, SAVE_MIGRATIONS);
+  if (!data) return { version: SAVE_SCHEMA_VERSION };
+  return {
+    version: SAVE_SCHEMA_VERSION,
+    settings: data.settings,
+    session: sanitizeSession(data.session)
+  };
+};
+
+const updateSaveData = (changes: Partial<SaveData>) => {
+  writeJson(SAVE_KEY, { ...loadSaveData(), ...changes, version: SAVE_SCHEMA_VERSION });
+};
+
+export const saveSettings = (settings: SavedSettings) => updateSaveData({ settings });
+
+export const saveSession = (session: SavedSession) => updateSaveData({ session });
+
+export const clearSession = () => updateSaveData({ session: undefined });
+
+const loadHighScoreData = (): HighScoreData => {
+  const data = migrate(readJson(HIGH_SCORES_KEY), HIGH_SCORE_SCHEMA_VERSION, HIGH_SCORE_MIGRATIONS);
+  if (!data || !Array.isArray(data.entries)) return { version: HIGH_SCORE_SCHEMA_VERSION, entries: [] };
+  return data as HighScoreData;
+};
+
+// Best first
+export const loadHighScores = (): HighScoreEntry[] => loadHighScoreData().entries;
+
+export const getLastPlayerName = () => loadHighScoreData().lastName || "";
+
+export const qualifiesForHighScore = (score: number) => {
+  if (score <= 0) return false;
+  const entries = loadHighScores();
+  return entries.length < HIGH_SCORE_LIMIT || score > entries[entries.length - 1].score;
+};
+
+// Inserts the entry and returns the updated table
+export const addHighScore = (entry: HighScoreEntry): HighScoreEntry[] => {
+  const data = loadHighScoreData();
+  const entries = [...data.entries, entry]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, HIGH_SCORE_LIMIT);
+  writeJson(HIGH_SCORES_KEY, { version: HIGH_SCORE_SCHEMA_VERSION, lastName: entry.name, entries });
+  return entries;
+};
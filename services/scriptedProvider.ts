@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { StrategicHint } from "../types";
+import { HintProvider, createDebugInfo } from "./hintProvider";
+
+// One canned answer. delayMs simulates model latency.
+export interface ScriptedResponse extends StrategicHint {
+  delayMs?: number;
+  error?: string; // Recorded as DebugInfo.error, e.g. to replay a failure
+}
+
+export interface HintScript {
+  name?: string;
+  loop?: boolean; // Start over after the last response (default true)
+  responses: ScriptedResponse[];
+}
+
+// Accepts a hand-written script ({ responses }) or a session exported from the AI inspector ({ calls })
+export const parseHintScript = (data: any): HintScript => {
+  if (Array.isArray(data?.responses)) return data as HintScript;
+  if (Array.isArray(data?.calls)) {
+    return {
+      name: "replayed session",
+      loop: false,
+      responses: data.calls.map((call: any) => ({
+        ...(call.parsedResponse || { message: "(no response)" }),
+        delayMs: call.latency,
+        error: call.error
+      }))
+    };
+  }
+  throw new Error("Hint script needs a \"responses\" or \"calls\" array.");
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createScriptedProvider = (script: HintScript | Promise<HintScript>): HintProvider => {
+  let index = 0;
+
+  return {
+    name: "scripted",
+    getHint: async (request) => {
+      const debug = createDebugInfo(request, "scripted");
+      const { name, loop = true, responses } = await script;
+      const exhausted = index >= responses.length && !loop;
+
+      if (responses.length === 0 || exhausted) {
+        return {
+          hint: { message: "준비된 힌트가 없어요." },
+          debug: { ...debug, error: `Script ${name || ""} has no more responses` }
+        };
+      }
+
+      const { delayMs = 0, error, ...hint } = responses[index % responses.length];
+      index++;
+      if (delayMs > 0) await wait(delayMs);
+
+      debug.latency = delayMs;
+      debug.promptContext = `(scripted response #${index}${name ? ` from ${name}` : ""})`;
+      debug.rawResponse = JSON.stringify(hint);
+      debug.parsedResponse = hint;
+      return { hint, debug: error ? { ...debug, error } : debug };
+    }
+  };
+};
+
+export const loadHintScript = async (url: string): Promise<HintScript> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status} while loading ${url}`);
+  return parseHintScript(await response.json());
+};
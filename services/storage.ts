@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Shared localStorage plumbing for versioned saves (game sessions, high scores, learner history)
+
+export type Migrations = Record<number, (data: any) => any>; // migrations[n] turns version n into n + 1
+
+// Upgrades stored data one version at a time; null if it is unreadable or from a newer build
+export const migrate = (data: any, version: number, migrations: Migrations): any | null => {
+  if (!data || typeof data !== "object" || typeof data.version !== "number") return null;
+  let current = data;
+  while (current.version < version) {
+    const step = migrations[current.version];
+    if (!step) return null;
+    current = { ...step(current), version: current.version + 1 };
+  }
+  return current.version === version ? current : null;
+};
+
+// localStorage throws in some private modes and when full; a failed save must never break the game
+export const readJson = (key: string): unknown => {
+  try {
+    const text = localStorage.getItem(key);
+    return text ? JSON.parse(text) : null;
+  } catch (e) {
+    console.warn(`Could not read ${key}:`, e);
+    return null;
+  }
+};
+
+export const writeJson = (key: string, data: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(data));
+  } catch (e) {
+    console.warn(`Could not write ${key}:`, e);
+  }
+};
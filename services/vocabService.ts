@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BubbleColor, VocabPack, VocabWord } from "../types";
+import { COLOR_KEYS } from "../engine/grid";
+import basicPack from "../vocab/basic.json";
+import animalsPack from "../vocab/animals.json";
+import foodPack from "../vocab/food.json";
+import familyPack from "../vocab/family.json";
+
+export interface VocabValidationResult {
+  pack?: VocabPack;
+  errors: string[];
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+// Checks an untrusted JSON value against the pack format. Every colour slot needs a word.
+export const validateVocabPack = (data: unknown): VocabValidationResult => {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== "object") {
+    return { errors: ["Pack must be a JSON object."] };
+  }
+  const raw = data as Record<string, any>;
+
+  if (!isNonEmptyString(raw.id)) errors.push("\"id\" must be a non-empty string.");
+  if (!isNonEmptyString(raw.name)) errors.push("\"name\" must be a non-empty string.");
+  if (raw.description !== undefined && typeof raw.description !== "string") {
+    errors.push("\"description\" must be a string.");
+  }
+  if (!raw.words || typeof raw.words !== "object") {
+    errors.push("\"words\" must map each bubble colour to a word.");
+    return { errors };
+  }
+
+  const words = {} as Record<BubbleColor, VocabWord>;
+  for (const color of COLOR_KEYS) {
+    const entry = raw.words[color];
+    if (!entry || typeof entry !== "object") {
+      errors.push(`words.${color} is missing.`);
+      continue;
+    }
+    if (!isNonEmptyString(entry.word)) errors.push(`words.${color}.word must be a non-empty string.`);
+    if (!isNonEmptyString(entry.translation)) errors.push(`words.${color}.translation must be a non-empty string.`);
+    for (const optional of ["emoji", "image", "audio"]) {
+      if (entry[optional] !== undefined && !isNonEmptyString(entry[optional])) {
+        errors.push(`words.${color}.${optional} must be a non-empty string when set.`);
+      }
+    }
+
+    words[color] = {
+      word: String(entry.word ?? "").trim(),
+      translation: String(entry.translation ?? "").trim(),
+      emoji: entry.emoji,
+      image: entry.image,
+      audio: entry.audio
+    };
+  }
+
+  const unknownSlots = Object.keys(raw.words).filter(k => !COLOR_KEYS.includes(k as BubbleColor));
+  if (unknownSlots.length > 0) {
+    errors.push(`Unknown colour slots: ${unknownSlots.join(", ")}.`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    pack: { id: raw.id.trim(), name: raw.name.trim(), description: raw.description, words },
+    errors
+  };
+};
+
+const builtIn = (data: unknown): VocabPack => {
+  const { pack, errors } = validateVocabPack(data);
+  if (!pack) throw new Error(`Invalid built-in vocabulary pack: ${errors.join(" ")}`);
+  return pack;
+};
+
+export const BUILT_IN_PACKS: VocabPack[] = [basicPack, animalsPack, foodPack, familyPack].map(builtIn);
+
+export const DEFAULT_VOCAB_PACK = BUILT_IN_PACKS[0];
+
+const parsePackText = (text: string): VocabValidationResult => {
+  try {
+    return validateVocabPack(JSON.parse(text));
+  } catch (e: any) {
+    return { errors: [`JSON Parse Error: ${e.message}`] };
+  }
+};
+
+export const loadVocabPackFromUrl = async (url: string): Promise<VocabValidationResult> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return { errors: [`HTTP ${response.status} while loading ${url}`] };
+    return parsePackText(await response.text());
+  } catch (e: any) {
+    return { errors: [e.message || "Network error"] };
+  }
+};
+
+export const loadVocabPackFromFile = async (file: File): Promise<VocabValidationResult> =>
+  parsePackText(await file.text());
+
+// "사과 (Apple)" - used in prompts and hint messages
+export const formatWordLabel = (pack: VocabPack, color: string) => {
+  const entry = pack.words[color as BubbleColor];
+  return entry ? `${entry.word} (${entry.translation})` : color.toUpperCase();
+};
+
+// Appends 을/를 depending on whether the last Hangul syllable has a final consonant
+export const withObjectParticle = (word: string) => {
+  const code = word.charCodeAt(word.length - 1) - 0xac00;
+  if (code < 0 || code > 11171) return `${word}를`;
+  return code % 28 === 0 ? `${word}를` : `${word}을`;
+};
@@ -15,6 +15,16 @@ export interface Vector {
 
 export type BubbleColor = 'red' | 'blue' | 'green' | 'yellow' | 'purple' | 'orange';
 
+// bomb: pops its whole hex neighbourhood when it goes off (matched on the board, or as soon as it lands as a shot)
+// rainbow: counts as any colour in a match
+// stone: never matches, only falls once nothing holds it up
+// Stones and rainbows carry no word, so their colour is ignored
+export type BubbleKind = 'normal' | 'bomb' | 'rainbow' | 'stone';
+
+// Special balls the player can shoot, collected by popping or dropping those bubbles on the board
+export type SpecialShotKind = 'bomb' | 'rainbow';
+export type SpecialShots = Record<SpecialShotKind, number>;
+
 export interface Bubble {
   id: string;
   row: number;
@@ -22,8 +32,49 @@ export interface Bubble {
   x: number;
   y: number;
   color: BubbleColor;
+  kind?: BubbleKind; // Missing = normal
   active: boolean; // if false, popped
   isFloating?: boolean; // For animation
+  vy?: number; // Fall speed while floating
+}
+
+// One word shown on every bubble of a colour slot
+export interface VocabWord {
+  word: string; // Hangul shown on the bubble
+  translation: string;
+  emoji?: string;
+  image?: string; // URL
+  audio?: string; // URL of a recorded pronunciation, falls back to TTS
+}
+
+export interface VocabPack {
+  id: string;
+  name: string;
+  description?: string;
+  words: Record<BubbleColor, VocabWord>;
+}
+
+// What a level asks for; all of a level's goals must be met to win
+export type LevelGoal =
+  | { type: 'clear' } // No bubbles left on the board
+  | { type: 'pop'; color: BubbleColor; count: number } // Pop or drop N bubbles of a word
+  | { type: 'score'; score: number };
+
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  // One string per grid row, one character per cell: r/b/g/y/p/o a colour, R/B/G/Y/P/O a bomb of that colour,
+  // * a random allowed colour, @ a rainbow, # a stone, . empty. Odd rows hold one cell fewer (GRID_COLS - 1).
+  layout: string[];
+  colors: BubbleColor[]; // Words that can appear on this level (random cells and the shooting palette)
+  shotLimit?: number; // Missing = unlimited
+  goals: LevelGoal[];
+  ceiling?: {
+    dropMisses?: number; // Misses before the ceiling drops, 0 = never
+    dropIntervalMs?: number; // Time before the ceiling drops, 0 = never
+  };
+  stars: [number, number, number]; // Score needed for 1, 2 and 3 stars (winning always earns at least one)
 }
 
 export interface Particle {
@@ -35,6 +86,56 @@ export interface Particle {
   color: string;
 }
 
+// Floating "+N" text over the board after a scoring shot
+export interface ScorePopup {
+  x: number;
+  y: number;
+  text: string;
+  color: string;
+  size: number; // Font px
+  life: number; // 1 → 0
+}
+
+// How the ball reaches a target: straight, or off a side wall first (canvas coordinates;
+// the view is mirrored, so 'left-bank' uses the wall on the player's right)
+export type ShotKind = 'direct' | 'left-bank' | 'right-bank';
+
+export interface TargetCandidate {
+  id: string;
+  color: BubbleColor;
+  size: number;
+  row: number;
+  col: number;
+  shot: ShotKind;
+  bounces: number; // 0 for direct, 1-2 for bank shots (the kind names the first wall)
+  aimPoint: Point; // Where to aim: the first bounce point, or the bubble itself
+  path: Point[]; // Anchor, bounce points, target
+  pointsPerBubble: number;
+  dropCount: number; // Bubbles that would fall once this cluster pops
+  dropPoints: number; // Bonus score for those dropped bubbles
+  rainbows: number; // Rainbow wildcards counted in size
+  bombs: number; // Bombs in the cluster; they go off when it pops
+  blastCount: number; // Extra bubbles those bombs take with them
+  description: string;
+}
+
+// Everything a hint source needs to know about the board at the moment of the request
+export interface BoardSnapshot {
+  version: number; // GameState.boardVersion this snapshot was taken at
+  bubbles: Bubble[]; // Active bubbles only
+  width: number;
+  height: number;
+  anchor: Point;
+  ceilingRows: number;
+  dangerRow: number; // Lowest occupied row
+  criticalRow: number; // Rows at or below this are close to the danger line
+  candidates: TargetCandidate[];
+  shootableColors: BubbleColor[]; // Just heldColor in queue mode
+  heldColor?: BubbleColor; // Queue mode: the ball on the slingshot, the only word the player can fire now
+  stones: number; // Active stone blockers
+  specialShots: SpecialShots; // Bombs and rainbows the player can shoot
+}
+
 export interface StrategicHint {
   message: string;
   rationale?: string;
@@ -43,10 +144,20 @@ export interface StrategicHint {
   recommendedColor?: BubbleColor;
 }
 
+// How a hint request ended: answered, answered after correction, answered by the local fallback, or thrown away
+export type HintOutcome = 'ok' | 'corrected' | 'fallback' | 'timeout' | 'error' | 'stale' | 'cancelled';
+
 export interface DebugInfo {
+  provider?: string; // HintProvider.name that produced this call
+  outcome?: HintOutcome;
+  attempts?: number; // Provider calls made, including retries
+  boardVersion?: number; // Board the hint was requested for
+  boardHash?: string; // Cache key, see getBoardHash
+  cacheHit?: boolean; // Answered from the hint cache without calling the provider
   latency: number;
   screenshotBase64?: string;
   promptContext: string;
+  candidates?: TargetCandidate[]; // Exactly what the model was offered
   rawResponse: string;
   parsedResponse?: any;
   error?: string;
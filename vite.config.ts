@@ -12,7 +12,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.HINT_PROVIDER': JSON.stringify(env.HINT_PROVIDER),
+        'process.env.HINT_SCRIPT_URL': JSON.stringify(env.HINT_SCRIPT_URL),
+        'process.env.HINT_TIMEOUT_MS': JSON.stringify(env.HINT_TIMEOUT_MS),
+        'process.env.HINT_RETRIES': JSON.stringify(env.HINT_RETRIES),
+        'process.env.HINT_CACHE_SIZE': JSON.stringify(env.HINT_CACHE_SIZE)
       },
       resolve: {
         alias: {